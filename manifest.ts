@@ -1,8 +1,54 @@
+import { DEFAULT_CODEGEN_DEPTH, EXTRACT_PROFILES } from "./src/constants";
+
 export default {
   name: "GET raw data for AI models",
   id: "1508359885753658623",
   api: "1.0.0",
-  editorType: ["figma", "figjam", "slides"],
+  editorType: ["figma", "figjam", "slides", "dev"],
+  capabilities: ["codegen"],
+  // Output formats offered in Dev Mode's inspect panel, by serializer id
+  codegenLanguages: [
+    { label: "Mini JSON", value: "minified" },
+    { label: "Pretty JSON", value: "pretty" },
+    { label: "YAML", value: "yaml" },
+    { label: "Outline", value: "outline" },
+    { label: "Markdown", value: "markdown" },
+    { label: "HTML + CSS", value: "code" },
+  ],
+  codegenPreferences: [
+    {
+      itemType: "select",
+      propertyName: "profile",
+      label: "Profile",
+      options: EXTRACT_PROFILES.map((profile, index) => ({
+        label: profile.name,
+        value: profile.id,
+        isDefault: index === 0,
+      })),
+    },
+    {
+      itemType: "select",
+      propertyName: "depth",
+      label: "Depth",
+      options: [
+        { label: "All", value: "all" },
+        ...[0, 1, 2, 3, 5].map(depth => ({
+          label: String(depth),
+          value: String(depth),
+          isDefault: depth === DEFAULT_CODEGEN_DEPTH,
+        })),
+      ],
+    },
+    {
+      itemType: "select",
+      propertyName: "omitDefaults",
+      label: "Skip defaults",
+      options: [
+        { label: "Off", value: "off", isDefault: true },
+        { label: "On", value: "on" },
+      ],
+    },
+  ],
   main: "./canvas.js",
   ui: "./plugin.html",
   documentAccess: "dynamic-page",
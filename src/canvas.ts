@@ -1,20 +1,215 @@
-// Show UI with appropriate size
-figma.showUI(__html__, { themeColors: true, width: 240, height: 320 });
+import { DEFAULT_CODEGEN_DEPTH, DEFAULT_EXTRACT_OPTIONS, EXTRACT_PROFILES, MAX_ICON_SIZE, SETTINGS_STORAGE_KEY } from './constants';
+import {
+  extractComponentDefinitions,
+  extractComponentProperties,
+  extractComponentReference,
+  getInstanceOverrides
+} from './services/components';
+import { extractBoardContent, findSection } from './services/boards';
+import { createNodeCache, NodeCache } from './services/cache';
+import { applyPatch } from './services/patch';
+import { buildFlowGraph, collectDestinationIds, extractReactions } from './services/prototype';
+import { createReferenceResolver, ReferenceResolver } from './services/references';
+import { collectScope } from './services/scope';
+import { collectSnapshotNodes, deleteSnapshot, loadSnapshots, saveSnapshot, summarizeSnapshot } from './services/snapshots';
+import { exportDesignTokens } from './services/tokens';
+import type { ExtractOptions } from './types/extraction';
+import type { PluginMessage, PreviewImage, UiMessage } from './types/messages';
+import type { PatchOperation } from './types/patch';
+import { omitDefaultValues } from './utils/defaults';
+import { diffSnapshots } from './utils/diff';
+import { annotateAccessibility } from './utils/semantics';
+import { getSerializer } from './utils/serializers';
+import { summarizeSubtree } from './utils/summary';
+import { deduplicateSubtrees } from './utils/templates';
+
+// How an extraction run finds out a newer one replaced it, and whether the UI follows its progress
+type RunControl = {
+  isStale: () => boolean;
+  showsProgress: boolean;
+};
+
+// Progress of one extraction run
+type ExtractionRun = RunControl & {
+  processed: number;
+  // Nodes found so far; it grows as children are reached, so no walk is needed up front
+  total: number;
+};
+
+// State shared by every node of one extraction run
+type ExtractContext = {
+  options: ExtractOptions;
+  references: ReferenceResolver;
+  cache: NodeCache;
+  run: ExtractionRun;
+};
+
+// Thrown inside a stale run to unwind it without sending anything
+class ExtractionCancelledError extends Error {}
+
+// Nodes extracted between two yields back to the event loop
+const EXTRACTION_BATCH_SIZE = 50;
+
+// Extraction options last chosen in the UI
+const extractOptions: ExtractOptions = { ...DEFAULT_EXTRACT_OPTIONS };
+
+// Id of the newest extraction run for the UI output
+let currentRunId = 0;
+
+// Own properties of nodes extracted so far, kept up to date by node and style changes
+const nodeCache = createNodeCache();
+
+// Time edits must pause for before the output is refreshed
+const EDIT_REFRESH_DELAY = 250;
+
+// Pending refresh after an edit
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Page whose node changes are being listened to
+let watchedPage: PageNode | null = null;
+
+// Last settings save queued, which the next one waits for
+let pendingSettingsSave: Promise<void> = Promise.resolve();
+
+// Snapshots always use the same options so that they compare equal when nothing changed
+const SNAPSHOT_OPTIONS: ExtractOptions = { ...DEFAULT_EXTRACT_OPTIONS, omitDefaults: true };
+
+// Highlighting used in Dev Mode's inspect panel for each output format
+const CODEGEN_LANGUAGES: Record<string, CodegenResult['language']> = {
+  minified: 'JSON',
+  pretty: 'JSON',
+  code: 'HTML'
+};
+
+// Function to send a message to the UI; the inspect panel's code generator runs without one
+function postToUI(message: PluginMessage) {
+  if (figma.mode === 'codegen') return;
+  figma.ui.postMessage(message);
+}
 
 // Listen for messages from the UI
-figma.ui.onmessage = (msg) => {
-  if (msg.type === 'toggleExpand') {
-    // When expand setting changes, send updated selection data
-    sendSelectionToUI(msg.expandContent);
+figma.ui.onmessage = (msg: UiMessage) => {
+  if (msg.type === 'updateOptions') {
+    // When extraction options change, send updated selection data
+    Object.assign(extractOptions, msg.options);
+    sendSelectionToUI();
+  } else if (msg.type === 'cancelExtraction') {
+    // Leave the running extraction stale so it stops at its next batch
+    currentRunId++;
+    postToUI({ type: 'extractionCancelled' });
+  } else if (msg.type === 'listSnapshots') {
+    sendSnapshotsToUI();
+  } else if (msg.type === 'saveSnapshot') {
+    // Save the current selection to diff later revisions against
+    takeSnapshot(msg.name);
+  } else if (msg.type === 'deleteSnapshot') {
+    removeSnapshot(msg.id);
+  } else if (msg.type === 'diffSnapshot') {
+    // Compare the current selection with a saved snapshot
+    sendDiffToUI(msg.id);
   } else if (msg.type === 'notify') {
     // Show a notification
     figma.notify(msg.message);
+  } else if (msg.type === 'exportTokens') {
+    // Export local variables and styles as design tokens
+    sendTokensToUI();
+  } else if (msg.type === 'applyPatch') {
+    // Apply edits suggested by a model to the nodes they name
+    applyPatchFromUI(msg.operations);
+  } else if (msg.type === 'exportFlows') {
+    // Export the current page's screens and the navigation between them
+    sendFlowsToUI();
+  } else if (msg.type === 'saveSetting') {
+    // Remember a UI preference between sessions
+    saveSetting(msg.key, msg.value);
   } else if (msg.type === 'init') {
-    // Send initial selection data when UI is ready
-    sendSelectionToUI(true);
+    // Send stored preferences and initial selection data when UI is ready
+    sendSettingsToUI();
+    sendSelectionToUI();
   }
 };
 
+// Function to send the document's design tokens to the UI
+async function sendTokensToUI() {
+  try {
+    const tokens = await exportDesignTokens();
+    postToUI({
+      type: 'tokens',
+      data: tokens
+    });
+  } catch (error) {
+    console.error('Error exporting design tokens:', error);
+    postToUI({
+      type: 'error',
+      message: 'Failed to export design tokens'
+    });
+  }
+}
+
+// Function to apply a patch as one undo step and send the operations that failed to the UI
+async function applyPatchFromUI(operations: PatchOperation[]) {
+  try {
+    const result = await applyPatch(operations);
+    figma.notify(result.failures.length > 0
+      ? `Applied ${result.applied} of ${operations.length} edits`
+      : `Applied ${result.applied} edits`);
+    postToUI({
+      type: 'patchResult',
+      result
+    });
+  } catch (error) {
+    console.error('Error applying patch:', error);
+    postToUI({
+      type: 'error',
+      message: 'Failed to apply patch'
+    });
+  }
+}
+
+// Function to send the current page's flow graph to the UI
+async function sendFlowsToUI() {
+  try {
+    postToUI({
+      type: 'flows',
+      graph: await buildFlowGraph()
+    });
+  } catch (error) {
+    console.error('Error exporting flows:', error);
+    postToUI({
+      type: 'error',
+      message: 'Failed to export prototype flows'
+    });
+  }
+}
+
+// Function to send UI preferences stored in clientStorage to the UI
+async function sendSettingsToUI() {
+  try {
+    // Read after any save still in flight
+    await pendingSettingsSave;
+    const settings = await figma.clientStorage.getAsync(SETTINGS_STORAGE_KEY);
+    postToUI({
+      type: 'settings',
+      settings: settings ?? {}
+    });
+  } catch (error) {
+    console.error('Error loading settings:', error);
+  }
+}
+
+// Function to store a single UI preference in clientStorage. Saves read and rewrite the same key,
+// so each one waits for the previous to finish rather than overwriting it with older settings
+function saveSetting(key: string, value: unknown) {
+  pendingSettingsSave = pendingSettingsSave.then(async () => {
+    try {
+      const settings = await figma.clientStorage.getAsync(SETTINGS_STORAGE_KEY);
+      await figma.clientStorage.setAsync(SETTINGS_STORAGE_KEY, { ...settings, [key]: value });
+    } catch (error) {
+      console.error('Error saving setting:', error);
+    }
+  });
+}
+
 // Helper function to extract color information including hex
 function extractColor(color: RGB | RGBA): any {
   const colorObj: any = {
@@ -39,86 +234,945 @@ function extractColor(color: RGB | RGBA): any {
   return colorObj;
 }
 
+// Helper function to resolve a variable alias, with color values formatted like extractColor
+async function extractVariableReference(alias: VariableAlias, consumer: SceneNode, context: ExtractContext): Promise<any> {
+  const reference: any = await context.references.resolveVariable(alias, consumer, !context.options.referencesOnly);
+  if (reference && reference.resolvedType === 'COLOR') {
+    reference.value = extractColor(reference.value);
+  }
+  return reference;
+}
+
+// Helper function to resolve every single-alias binding of an object (node, paint, effect, segment)
+async function extractBoundVariables(boundVariables: any, consumer: SceneNode, context: ExtractContext): Promise<any> {
+  if (!boundVariables) return null;
+
+  const variables: any = {};
+  for (const [field, alias] of Object.entries<any>(boundVariables)) {
+    // Array bindings (fills, strokes, effects...) are resolved on the individual paints and effects
+    if (!alias || Array.isArray(alias) || alias.type !== 'VARIABLE_ALIAS') continue;
+    const reference = await extractVariableReference(alias, consumer, context);
+    if (reference) variables[field] = reference;
+  }
+
+  return Object.keys(variables).length > 0 ? variables : null;
+}
+
+// Helper function to convert a gradient transform into a CSS linear-gradient angle; the transform
+// works in the node's unit square, so the handles are scaled to its size before measuring the angle
+function gradientTransformToAngle(transform: Transform, width: number, height: number): number {
+  const [[a, c, e], [b, d, f]] = transform;
+  const det = a * d - c * b;
+  if (det === 0) return 180;
+
+  // Invert the transform to find where the gradient handles sit in the node's unit space
+  const toNodeSpace = (x: number, y: number) => ({
+    x: (d * (x - e) - c * (y - f)) / det,
+    y: (a * (y - f) - b * (x - e)) / det
+  });
+  const start = toNodeSpace(0, 0.5);
+  const end = toNodeSpace(1, 0.5);
+
+  // CSS angles start at "to top" and run clockwise, with y pointing down
+  const angle = Math.atan2((end.x - start.x) * width, (start.y - end.y) * height) * 180 / Math.PI;
+  return Math.round(((angle + 360) % 360) * 100) / 100;
+}
+
 // Helper function to extract paint properties
-function extractPaints(paints: readonly Paint[]): any[] {
-  return paints.map(paint => {
+async function extractPaints(paints: readonly Paint[], consumer: SceneNode, context: ExtractContext): Promise<any[]> {
+  const paintsData: any[] = [];
+
+  // Hidden paints are dropped so the model doesn't render layers nobody sees
+  for (const paint of paints.filter(paint => paint.visible !== false)) {
     const paintData: any = {
       type: paint.type,
-      opacity: 'opacity' in paint ? paint.opacity : 1
+      opacity: paint.opacity ?? 1,
+      blendMode: paint.blendMode ?? 'NORMAL'
     };
     
-    // Extract color for solid paints
-    if (paint.type === 'SOLID' && 'color' in paint) {
-      paintData.color = extractColor(paint.color);
+    // Extract color for solid paints, preferring the bound variable when there is one
+    if (paint.type === 'SOLID') {
+      const variable = paint.boundVariables?.color
+        ? await extractVariableReference(paint.boundVariables.color, consumer, context)
+        : null;
+      if (variable) paintData.variable = variable;
+      if (!variable || !context.options.referencesOnly) {
+        paintData.color = extractColor(paint.color);
+      }
+    }
+
+    // Extract stops and direction for gradient paints
+    if (
+      paint.type === 'GRADIENT_LINEAR' ||
+      paint.type === 'GRADIENT_RADIAL' ||
+      paint.type === 'GRADIENT_ANGULAR' ||
+      paint.type === 'GRADIENT_DIAMOND'
+    ) {
+      paintData.gradientStops = [];
+      for (const stop of paint.gradientStops) {
+        const stopData: any = { position: stop.position };
+        const variable = stop.boundVariables?.color
+          ? await extractVariableReference(stop.boundVariables.color, consumer, context)
+          : null;
+        if (variable) stopData.variable = variable;
+        if (!variable || !context.options.referencesOnly) {
+          stopData.color = extractColor(stop.color);
+        }
+        paintData.gradientStops.push(stopData);
+      }
+      paintData.gradientTransform = paint.gradientTransform;
+      if (paint.type === 'GRADIENT_LINEAR') {
+        const { width, height } = 'width' in consumer ? consumer : { width: 1, height: 1 };
+        paintData.angle = gradientTransformToAngle(paint.gradientTransform, width, height);
+      }
+    }
+
+    // Extract image reference and adjustments for image paints
+    if (paint.type === 'IMAGE') {
+      paintData.imageHash = paint.imageHash;
+      paintData.scaleMode = paint.scaleMode;
+      if (paint.scalingFactor !== undefined) paintData.scalingFactor = paint.scalingFactor;
+      if (paint.rotation !== undefined) paintData.rotation = paint.rotation;
+      if (paint.imageTransform) paintData.imageTransform = paint.imageTransform;
+      if (paint.filters) paintData.filters = paint.filters;
+    }
+
+    if (paint.type === 'VIDEO') {
+      paintData.videoHash = paint.videoHash;
+      paintData.scaleMode = paint.scaleMode;
+    }
+
+    if (paint.type === 'PATTERN') {
+      paintData.sourceNodeId = paint.sourceNodeId;
+      paintData.tileType = paint.tileType;
+      paintData.scalingFactor = paint.scalingFactor;
+      paintData.spacing = paint.spacing;
     }
     
-    // Handle other paint types as needed
-    return paintData;
+    paintsData.push(paintData);
+  }
+
+  return paintsData;
+}
+
+// Text properties that can vary across characters of a single TEXT node
+const TEXT_SEGMENT_FIELDS: (keyof Omit<StyledTextSegment, 'characters' | 'start' | 'end'>)[] = [
+  'fontName',
+  'fontWeight',
+  'fontSize',
+  'lineHeight',
+  'letterSpacing',
+  'textCase',
+  'textDecoration',
+  'fills',
+  'fillStyleId',
+  'textStyleId',
+  'boundVariables'
+];
+
+// Helper function to extract typography from a styled text segment or node
+function extractTypography(source: any): any {
+  const typography: any = {};
+
+  if (source.fontName && source.fontName !== figma.mixed) {
+    typography.fontFamily = source.fontName.family;
+    typography.fontStyle = source.fontName.style;
+  }
+  if (typeof source.fontWeight === 'number') typography.fontWeight = source.fontWeight;
+  if (typeof source.fontSize === 'number') typography.fontSize = source.fontSize;
+
+  // Line height and letter spacing keep their unit so PERCENT values aren't mistaken for pixels
+  if (source.lineHeight && source.lineHeight !== figma.mixed) {
+    typography.lineHeight = source.lineHeight.unit === 'AUTO'
+      ? 'AUTO'
+      : { value: source.lineHeight.value, unit: source.lineHeight.unit };
+  }
+  if (source.letterSpacing && source.letterSpacing !== figma.mixed) {
+    typography.letterSpacing = { value: source.letterSpacing.value, unit: source.letterSpacing.unit };
+  }
+
+  if (typeof source.textCase === 'string') typography.textCase = source.textCase;
+  if (typeof source.textDecoration === 'string') typography.textDecoration = source.textDecoration;
+
+  return typography;
+}
+
+// Helper function to extract the text style and typography variables of a styled text segment
+async function extractTextReferences(segment: any, node: TextNode, context: ExtractContext): Promise<any> {
+  const references: any = {};
+
+  const textStyle = await context.references.resolveStyleName(segment.textStyleId);
+  if (textStyle) references.textStyle = textStyle;
+
+  const variables = await extractBoundVariables(segment.boundVariables, node, context);
+  if (variables) references.variables = variables;
+
+  return references;
+}
+
+// Helper function to extract text content and typography from a TEXT node
+async function extractTextData(node: TextNode, context: ExtractContext): Promise<any> {
+  const segments = node.getStyledTextSegments(TEXT_SEGMENT_FIELDS);
+
+  const textData: any = {
+    characters: node.characters
+  };
+
+  // Typography covered by a text style is left out when only references are wanted
+  const references = segments.length === 1 ? await extractTextReferences(segments[0], node, context) : {};
+  if (!references.textStyle || !context.options.referencesOnly) {
+    Object.assign(textData, extractTypography(node));
+  }
+  Object.assign(textData, references, {
+    textAlignHorizontal: node.textAlignHorizontal,
+    textAlignVertical: node.textAlignVertical,
+    textAutoResize: node.textAutoResize
   });
+
+  // Mixed-style text is broken into styled runs so rich text isn't flattened into one style
+  if (segments.length > 1) {
+    textData.segments = [];
+    for (const segment of segments) {
+      const segmentReferences = await extractTextReferences(segment, node, context);
+      const fillStyle = await context.references.resolveStyleName(segment.fillStyleId);
+      const segmentData: any = {
+        characters: segment.characters,
+        start: segment.start,
+        end: segment.end
+      };
+      if (!segmentReferences.textStyle || !context.options.referencesOnly) {
+        Object.assign(segmentData, extractTypography(segment));
+      }
+      Object.assign(segmentData, segmentReferences);
+      if (fillStyle) segmentData.fillStyle = fillStyle;
+      if (!fillStyle || !context.options.referencesOnly) {
+        segmentData.fills = await extractPaints(segment.fills, node, context);
+      }
+      textData.segments.push(segmentData);
+    }
+  }
+
+  return textData;
 }
 
-// Function to extract complete node data
-function extractNodeData(node: SceneNode, expandContent: boolean): any {
-  // Basic properties all nodes have
-  const nodeData: any = {
+// Helper function to extract visible effects (shadows, blurs, noise and texture)
+async function extractEffects(effects: readonly Effect[], consumer: SceneNode, context: ExtractContext): Promise<any[]> {
+  const effectsData: any[] = [];
+
+  for (const effect of effects.filter(effect => !('visible' in effect) || effect.visible)) {
+    const effectData: any = {
+      type: effect.type
+    };
+
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+      effectData.color = extractColor(effect.color);
+      effectData.offset = { x: effect.offset.x, y: effect.offset.y };
+      effectData.radius = effect.radius;
+      effectData.spread = effect.spread ?? 0;
+      effectData.blendMode = effect.blendMode;
+      if (effect.type === 'DROP_SHADOW' && effect.showShadowBehindNode !== undefined) {
+        effectData.showShadowBehindNode = effect.showShadowBehindNode;
+      }
+    } else if (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR') {
+      effectData.radius = effect.radius;
+    } else if (effect.type === 'NOISE') {
+      effectData.noiseType = effect.noiseType;
+      effectData.noiseSize = effect.noiseSize;
+      effectData.density = effect.density;
+    } else if (effect.type === 'TEXTURE') {
+      effectData.noiseSize = effect.noiseSize;
+      effectData.radius = effect.radius;
+    }
+
+    if ('boundVariables' in effect) {
+      const variables = await extractBoundVariables(effect.boundVariables, consumer, context);
+      if (variables) effectData.variables = variables;
+    }
+
+    effectsData.push(effectData);
+  }
+
+  return effectsData;
+}
+
+// Helper function to extract corner radii, with per-corner values when they differ
+function extractCornerRadius(node: SceneNode): any {
+  const radiusData: any = {};
+
+  if ('cornerRadius' in node) {
+    if (node.cornerRadius !== figma.mixed) {
+      radiusData.cornerRadius = node.cornerRadius;
+    } else if ('topLeftRadius' in node) {
+      radiusData.cornerRadii = {
+        topLeft: node.topLeftRadius,
+        topRight: node.topRightRadius,
+        bottomRight: node.bottomRightRadius,
+        bottomLeft: node.bottomLeftRadius
+      };
+    }
+  }
+  if ('cornerSmoothing' in node && node.cornerSmoothing > 0) {
+    radiusData.cornerSmoothing = node.cornerSmoothing;
+  }
+
+  return radiusData;
+}
+
+// Figma auto-layout alignment values mapped onto their flexbox counterparts
+const FLEX_ALIGNMENT: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between',
+  BASELINE: 'baseline'
+};
+
+// Helper function to extract the auto-layout contract of a container
+function extractAutoLayout(node: SceneNode): any {
+  if (!('layoutMode' in node)) return {};
+
+  const layoutData: any = {
+    layoutMode: node.layoutMode
+  };
+  if (node.layoutMode === 'NONE') return layoutData;
+
+  const isWrapping = node.layoutWrap === 'WRAP';
+
+  Object.assign(layoutData, {
+    layoutWrap: node.layoutWrap,
+    primaryAxisSizingMode: node.primaryAxisSizingMode,
+    counterAxisSizingMode: node.counterAxisSizingMode,
+    primaryAxisAlignItems: node.primaryAxisAlignItems,
+    counterAxisAlignItems: node.counterAxisAlignItems,
+    paddingTop: node.paddingTop,
+    paddingRight: node.paddingRight,
+    paddingBottom: node.paddingBottom,
+    paddingLeft: node.paddingLeft,
+    itemSpacing: node.itemSpacing,
+    itemReverseZIndex: node.itemReverseZIndex,
+    strokesIncludedInLayout: node.strokesIncludedInLayout
+  });
+  if (isWrapping) {
+    layoutData.counterAxisSpacing = node.counterAxisSpacing;
+    layoutData.counterAxisAlignContent = node.counterAxisAlignContent;
+  }
+
+  // The same contract expressed in flexbox terms
+  const flex: any = {
+    display: 'flex',
+    flexDirection: node.layoutMode === 'HORIZONTAL' ? 'row' : 'column',
+    justifyContent: FLEX_ALIGNMENT[node.primaryAxisAlignItems],
+    alignItems: FLEX_ALIGNMENT[node.counterAxisAlignItems],
+    padding: `${node.paddingTop}px ${node.paddingRight}px ${node.paddingBottom}px ${node.paddingLeft}px`
+  };
+  // With SPACE_BETWEEN the spacing is automatic, so a fixed gap would be wrong
+  if (node.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+    flex.gap = `${node.itemSpacing}px`;
+  }
+  if (isWrapping) {
+    flex.flexWrap = 'wrap';
+    if (node.counterAxisSpacing !== null) {
+      flex[node.layoutMode === 'HORIZONTAL' ? 'rowGap' : 'columnGap'] = `${node.counterAxisSpacing}px`;
+    }
+    if (node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+      flex.alignContent = 'space-between';
+    }
+  }
+  layoutData.flex = flex;
+
+  return layoutData;
+}
+
+// Helper function to extract how a child sits inside its auto-layout parent
+function extractLayoutChild(node: SceneNode): any {
+  const parent = node.parent;
+  if (!parent || !('layoutMode' in parent) || parent.layoutMode === 'NONE') return {};
+  if (!('layoutPositioning' in node)) return {};
+
+  // Absolutely positioned children opt out of the flow entirely
+  if (node.layoutPositioning === 'ABSOLUTE') {
+    return {
+      layoutPositioning: 'ABSOLUTE',
+      flexItem: { position: 'absolute' }
+    };
+  }
+
+  const childData: any = {
+    layoutSizingHorizontal: node.layoutSizingHorizontal,
+    layoutSizingVertical: node.layoutSizingVertical,
+    layoutGrow: node.layoutGrow,
+    layoutAlign: node.layoutAlign
+  };
+  if (node.minWidth !== null) childData.minWidth = node.minWidth;
+  if (node.maxWidth !== null) childData.maxWidth = node.maxWidth;
+  if (node.minHeight !== null) childData.minHeight = node.minHeight;
+  if (node.maxHeight !== null) childData.maxHeight = node.maxHeight;
+
+  // The same sizing expressed in flexbox terms, relative to the parent's primary axis
+  const isHorizontal = parent.layoutMode === 'HORIZONTAL';
+  const primarySizing = isHorizontal ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+  const counterSizing = isHorizontal ? node.layoutSizingVertical : node.layoutSizingHorizontal;
+  const flexItem: any = {};
+  if (primarySizing === 'FILL') {
+    flexItem.flex = '1 1 0';
+  } else if (primarySizing === 'FIXED') {
+    flexItem.flexShrink = 0;
+  }
+  if (counterSizing === 'FILL' || node.layoutAlign === 'STRETCH') {
+    flexItem.alignSelf = 'stretch';
+  }
+  if (node.minWidth !== null) flexItem.minWidth = `${node.minWidth}px`;
+  if (node.maxWidth !== null) flexItem.maxWidth = `${node.maxWidth}px`;
+  if (node.minHeight !== null) flexItem.minHeight = `${node.minHeight}px`;
+  if (node.maxHeight !== null) flexItem.maxHeight = `${node.maxHeight}px`;
+  childData.flexItem = flexItem;
+
+  return childData;
+}
+
+// Helper function to extract visible layout grids, with column and row grids mapped onto CSS grid
+function extractLayoutGrids(grids: readonly LayoutGrid[]): any[] {
+  return grids.filter(grid => grid.visible !== false).map(grid => {
+    if (grid.pattern === 'GRID') {
+      return {
+        pattern: grid.pattern,
+        sectionSize: grid.sectionSize
+      };
+    }
+
+    const gridData: any = {
+      pattern: grid.pattern,
+      alignment: grid.alignment,
+      count: grid.count,
+      gutterSize: grid.gutterSize
+    };
+    if (grid.sectionSize !== undefined) gridData.sectionSize = grid.sectionSize;
+    if (grid.offset !== undefined) gridData.offset = grid.offset;
+
+    // Stretched grids divide the space evenly; the others use fixed-size tracks
+    const track = grid.alignment === 'STRETCH' || grid.sectionSize === undefined
+      ? '1fr'
+      : `${grid.sectionSize}px`;
+    const isColumns = grid.pattern === 'COLUMNS';
+    gridData.cssGrid = {
+      display: 'grid',
+      [isColumns ? 'gridTemplateColumns' : 'gridTemplateRows']: `repeat(${grid.count}, ${track})`,
+      [isColumns ? 'columnGap' : 'rowGap']: `${grid.gutterSize}px`
+    };
+    if (grid.alignment === 'STRETCH' && grid.offset) {
+      gridData.cssGrid[isColumns ? 'paddingInline' : 'paddingBlock'] = `${grid.offset}px`;
+    }
+
+    return gridData;
+  });
+}
+
+// Helper function to extract component, variant and instance information
+async function extractComponentData(node: SceneNode): Promise<any> {
+  const componentData: any = {};
+
+  if (node.type === 'INSTANCE') {
+    const component = await extractComponentReference(node);
+    if (component) componentData.component = component;
+    if (node.variantProperties) componentData.variantProperties = node.variantProperties;
+    const componentProperties = await extractComponentProperties(node);
+    if (componentProperties) componentData.componentProperties = componentProperties;
+  } else if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+    componentData.componentKey = node.key;
+    if (node.description) componentData.description = node.description;
+
+    // Variants expose their values here; the property definitions live on the component set
+    if (node.type === 'COMPONENT' && node.parent?.type === 'COMPONENT_SET') {
+      if (node.variantProperties) componentData.variantProperties = node.variantProperties;
+    } else {
+      const definitions = extractComponentDefinitions(node);
+      if (definitions) componentData.componentPropertyDefinitions = definitions;
+    }
+  }
+
+  return componentData;
+}
+
+// Output keys produced by extractNodeData for override fields whose names differ from the Figma property
+const OVERRIDE_FIELD_KEYS: Partial<Record<NodeChangeProperty, string[]>> = {
+  characters: ['characters', 'segments'],
+  fontName: ['fontFamily', 'fontStyle', 'segments'],
+  styledTextSegments: ['segments', 'fontFamily', 'fontStyle', 'fontWeight', 'fontSize', 'lineHeight', 'letterSpacing', 'fills'],
+  fills: ['fills', 'fillStyle'],
+  strokes: ['strokes', 'strokeStyle'],
+  effects: ['effects', 'effectStyle'],
+  fillStyleId: ['fillStyle', 'fills'],
+  strokeStyleId: ['strokeStyle', 'strokes'],
+  effectStyleId: ['effectStyle', 'effects'],
+  gridStyleId: ['gridStyle', 'layoutGrids'],
+  textStyleId: ['textStyle', 'fontFamily', 'fontStyle', 'fontWeight', 'fontSize', 'lineHeight', 'letterSpacing'],
+  cornerRadius: ['cornerRadius', 'cornerRadii'],
+  topLeftRadius: ['cornerRadius', 'cornerRadii'],
+  topRightRadius: ['cornerRadius', 'cornerRadii'],
+  bottomLeftRadius: ['cornerRadius', 'cornerRadii'],
+  bottomRightRadius: ['cornerRadius', 'cornerRadii'],
+  strokeWeight: ['strokeWeight', 'strokeWeights'],
+  // The typings spell this override field without the "r"
+  stokeTopWeight: ['strokeWeight', 'strokeWeights'],
+  strokeRightWeight: ['strokeWeight', 'strokeWeights'],
+  strokeBottomWeight: ['strokeWeight', 'strokeWeights'],
+  strokeLeftWeight: ['strokeWeight', 'strokeWeights']
+};
+
+// Helper function to describe an instance by its main component and the overrides applied to it
+async function extractInstanceOverrides(node: InstanceNode, context: ExtractContext, root: SceneNode): Promise<any> {
+  // The reference always names its component; position, size and sizing follow the profile
+  const groups = new Set(context.options.groups);
+  const instanceData: any = {
     name: node.name,
-    type: node.type
+    type: node.type,
+    ...(groups.has('geometry') ? {
+      x: node.absoluteTransform[0][2] - root.absoluteTransform[0][2],
+      y: node.absoluteTransform[1][2] - root.absoluteTransform[1][2],
+      width: node.width,
+      height: node.height
+    } : {}),
+    ...await extractComponentData(node),
+    ...(groups.has('layout') ? extractLayoutChild(node) : {})
   };
-  
-  // Add geometric properties
-  if ('width' in node) nodeData.width = node.width;
-  if ('height' in node) nodeData.height = node.height;
-  
-  // Add layout properties
-  if ('layoutMode' in node) nodeData.layoutMode = node.layoutMode;
-  if ('primaryAxisSizingMode' in node) nodeData.primaryAxisSizingMode = node.primaryAxisSizingMode;
-  if ('counterAxisSizingMode' in node) nodeData.counterAxisSizingMode = node.counterAxisSizingMode;
-  if ('primaryAxisAlignItems' in node) nodeData.primaryAxisAlignItems = node.primaryAxisAlignItems;
-  if ('counterAxisAlignItems' in node) nodeData.counterAxisAlignItems = node.counterAxisAlignItems;
-  
+
+  // Overridden nodes are extracted on their own, with the same profile, and trimmed down to the
+  // overridden properties; fields the profile leaves out are therefore never reported
+  const overrideContext: ExtractContext = {
+    ...context,
+    options: { ...context.options, maxDepth: 0, instanceOverridesOnly: false }
+  };
+  const overrides: any[] = [];
+  for (const override of await getInstanceOverrides(node)) {
+    const extracted = await extractNodeData(override.node, overrideContext, root);
+    const values: any = {};
+    for (const field of override.fields) {
+      for (const key of OVERRIDE_FIELD_KEYS[field] ?? [field]) {
+        if (key in extracted) values[key] = extracted[key];
+      }
+    }
+    if (Object.keys(values).length > 0) {
+      overrides.push({ layer: override.node.name, type: override.node.type, ...values });
+    }
+  }
+  if (overrides.length > 0) instanceData.overrides = overrides;
+
+  return instanceData;
+}
+
+// Helper function to extract auto layout, auto-layout child sizing and layout grids
+async function extractLayoutData(node: SceneNode, context: ExtractContext): Promise<any> {
+  const layoutData: any = {
+    ...extractAutoLayout(node),
+    ...extractLayoutChild(node)
+  };
+
+  if ('layoutGrids' in node && node.layoutGrids.length > 0) {
+    const gridStyle = await context.references.resolveStyleName(node.gridStyleId);
+    if (gridStyle) layoutData.gridStyle = gridStyle;
+    if (!gridStyle || !context.options.referencesOnly) {
+      layoutData.layoutGrids = extractLayoutGrids(node.layoutGrids);
+    }
+  }
+
+  return layoutData;
+}
+
+// Helper function to extract fills, strokes and effects, with the styles they come from
+async function extractAppearance(node: SceneNode, context: ExtractContext): Promise<any> {
+  const appearanceData: any = {};
+
   // Add fill properties
-  if ('fills' in node && Array.isArray(node.fills)) {
-    nodeData.fills = extractPaints(node.fills);
+  // Fills are figma.mixed on text with several fill runs; the runs then carry their own fills
+  if ('fills' in node) {
+    const fillStyle = await context.references.resolveStyleName(node.fillStyleId);
+    if (fillStyle) appearanceData.fillStyle = fillStyle;
+    if (!fillStyle || !context.options.referencesOnly) {
+      appearanceData.fills = node.fills === figma.mixed ? 'MIXED' : await extractPaints(node.fills, node, context);
+    }
   }
   
   // Add stroke properties
-  if ('strokes' in node && Array.isArray(node.strokes)) {
-    nodeData.strokes = extractPaints(node.strokes);
+  if ('strokes' in node) {
+    const strokeStyle = await context.references.resolveStyleName(node.strokeStyleId);
+    if (strokeStyle) appearanceData.strokeStyle = strokeStyle;
+    if (!strokeStyle || !context.options.referencesOnly) {
+      appearanceData.strokes = await extractPaints(node.strokes, node, context);
+    }
   }
   if ('strokeWeight' in node && typeof node.strokeWeight === 'number') {
-    nodeData.strokeWeight = node.strokeWeight;
+    appearanceData.strokeWeight = node.strokeWeight;
+  } else if ('strokeTopWeight' in node) {
+    // Stroke weight is figma.mixed when the sides differ
+    appearanceData.strokeWeights = {
+      top: node.strokeTopWeight,
+      right: node.strokeRightWeight,
+      bottom: node.strokeBottomWeight,
+      left: node.strokeLeftWeight
+    };
   }
   if ('strokeAlign' in node && typeof node.strokeAlign === 'string') {
-    nodeData.strokeAlign = node.strokeAlign;
+    appearanceData.strokeAlign = node.strokeAlign;
   }
   if ('strokeCap' in node && typeof node.strokeCap === 'string') {
-    nodeData.strokeCap = node.strokeCap;
+    appearanceData.strokeCap = node.strokeCap;
   }
   if ('strokeJoin' in node && typeof node.strokeJoin === 'string') {
-    nodeData.strokeJoin = node.strokeJoin;
+    appearanceData.strokeJoin = node.strokeJoin;
+  }
+
+  // Add effects
+  if ('effects' in node) {
+    const effectStyle = await context.references.resolveStyleName(node.effectStyleId);
+    if (effectStyle) appearanceData.effectStyle = effectStyle;
+    if (!effectStyle || !context.options.referencesOnly) {
+      appearanceData.effects = await extractEffects(node.effects, node, context);
+    }
+  }
+
+  return appearanceData;
+}
+
+// Shapes that CSS can't draw and are exported as SVG instead
+const SVG_TYPES: NodeType[] = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'POLYGON', 'LINE'];
+// Shapes an icon may be built from besides those
+const ICON_PART_TYPES: NodeType[] = [...SVG_TYPES, 'ELLIPSE', 'RECTANGLE', 'GROUP', 'FRAME'];
+
+// Helper function to tell whether a node should be exported as SVG: vector shapes themselves,
+// and small containers drawn entirely from shapes
+function isSvgNode(node: SceneNode): boolean {
+  if (SVG_TYPES.includes(node.type)) return true;
+  if (!('children' in node) || node.children.length === 0) return false;
+  if (node.width > MAX_ICON_SIZE || node.height > MAX_ICON_SIZE) return false;
+
+  let hasVector = false;
+  const queue: SceneNode[] = [...node.children];
+  while (queue.length > 0) {
+    const part = queue.shift()!;
+    if (!ICON_PART_TYPES.includes(part.type)) return false;
+    if (SVG_TYPES.includes(part.type)) hasVector = true;
+    if ('children' in part) queue.push(...part.children);
+  }
+  return hasVector;
+}
+
+// Helper function to render a node as SVG markup, or null when Figma can't export it
+async function extractSvg(node: SceneNode): Promise<string | null> {
+  try {
+    return await node.exportAsync({ format: 'SVG_STRING', svgIdAttribute: false });
+  } catch (error) {
+    console.error('Error exporting SVG:', error);
+    return null;
+  }
+}
+
+// Helper function to count an extracted node, and every batch report progress and let Figma
+// handle input and rendering before going on; stale runs stop here
+async function trackProgress(context: ExtractContext) {
+  const { run } = context;
+  run.processed++;
+  if (run.processed % EXTRACTION_BATCH_SIZE !== 0) return;
+
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (run.isStale()) throw new ExtractionCancelledError();
+  if (!run.showsProgress) return;
+  postToUI({
+    type: 'extractionProgress',
+    processed: run.processed,
+    total: Math.max(run.processed, run.total)
+  });
+}
+
+// Helper function to extract the properties of a node itself, without its position and children,
+// so they can be cached until the node changes
+async function extractOwnData(node: SceneNode, context: ExtractContext): Promise<any> {
+  // Property groups chosen by the active profile
+  const groups = new Set(context.options.groups);
+
+  // Basic properties all nodes have
+  const nodeData: any = {
+    name: node.name,
+    type: node.type,
+    visible: node.visible
+  };
+
+  // Add component and instance information
+  if (groups.has('components')) {
+    Object.assign(nodeData, await extractComponentData(node));
   }
   
-  // Add children
-  if ('children' in node) {
-    if (expandContent) {
+  // Add geometric properties
+  // The position is filled in per extraction, since it depends on the selection root
+  if (groups.has('geometry')) {
+    nodeData.x = 0;
+    nodeData.y = 0;
+    if ('width' in node) nodeData.width = node.width;
+    if ('height' in node) nodeData.height = node.height;
+    if ('rotation' in node && node.rotation !== 0) nodeData.rotation = node.rotation;
+    if ('constraints' in node) nodeData.constraints = node.constraints;
+    if ('clipsContent' in node) nodeData.clipsContent = node.clipsContent;
+  }
+
+  // Add opacity and corner radius
+  if (groups.has('appearance')) {
+    if ('opacity' in node) nodeData.opacity = node.opacity;
+    if ('blendMode' in node) nodeData.blendMode = node.blendMode;
+    Object.assign(nodeData, extractCornerRadius(node));
+  }
+  
+  // Add layout properties
+  if (groups.has('layout')) {
+    Object.assign(nodeData, await extractLayoutData(node, context));
+  }
+
+  // Add fills, strokes and effects
+  if (groups.has('appearance')) {
+    Object.assign(nodeData, await extractAppearance(node, context));
+  }
+
+  // Add text content and typography
+  // Characters come with typography too, since styling is hard to read without the text it applies to
+  if (node.type === 'TEXT') {
+    if (groups.has('typography')) {
+      Object.assign(nodeData, await extractTextData(node, context));
+    } else if (groups.has('content')) {
+      nodeData.characters = node.characters;
+    }
+  }
+
+  // Add FigJam and Slides content (stickies, connectors, tables, slides...)
+  if (groups.has('content')) {
+    Object.assign(nodeData, await extractBoardContent(node));
+  }
+
+  // Add variables bound to single properties (sizes, spacing, radii, opacity...)
+  if (groups.has('variables')) {
+    const variables = await extractBoundVariables(node.boundVariables, node, context);
+    if (variables) nodeData.variables = variables;
+  }
+
+  // Add prototype triggers and actions
+  if (groups.has('prototype') && 'reactions' in node && node.reactions.length > 0) {
+    nodeData.reactions = await extractReactions(node.reactions);
+  }
+
+  // Add vector markup
+  const svg = context.options.svgVectors && isSvgNode(node) ? await extractSvg(node) : null;
+  if (svg) nodeData.svg = svg;
+
+  return nodeData;
+}
+
+// Function to extract complete node data
+async function extractNodeData(node: SceneNode, context: ExtractContext, root: SceneNode = node, depth = 0): Promise<any> {
+  await trackProgress(context);
+
+  // Instances can be reduced to a reference to their main component plus overrides
+  if (node.type === 'INSTANCE' && context.options.instanceOverridesOnly) {
+    const reference = await extractInstanceOverrides(node, context, root);
+    // Instances aren't cached here, but edits to them still have to refresh the output
+    if (!context.run.isStale()) context.cache.track(node);
+    return context.options.nodeIds ? { id: node.id, ...reference } : reference;
+  }
+
+  // Reuse the node's own properties unless it changed since they were extracted
+  let ownData = context.cache.get(node.id);
+  if (!ownData) {
+    ownData = await extractOwnData(node, context);
+    // A stale run may have read the node before an edit, so only the newest run fills the cache
+    if (!context.run.isStale()) context.cache.set(node, ownData, collectDestinationIds(ownData.reactions ?? []));
+  }
+  // Ids come first, so patches can be written against them at a glance
+  const nodeData: any = context.options.nodeIds ? { id: node.id, ...ownData } : { ...ownData };
+
+  // Nodes selected inside a FigJam section say which section they belong to
+  if (node === root && context.options.groups.includes('content')) {
+    const section = findSection(node);
+    if (section) nodeData.section = section;
+  }
+
+  // Position is relative to the selection root so nested coordinates make sense
+  if ('x' in nodeData) {
+    nodeData.x = node.absoluteTransform[0][2] - root.absoluteTransform[0][2];
+    nodeData.y = node.absoluteTransform[1][2] - root.absoluteTransform[1][2];
+  }
+
+  // Add children, or a summary of them once the depth limit is reached;
+  // an icon's SVG already draws its children, so they are left out
+  if ('children' in node && !nodeData.svg) {
+    const { maxDepth } = context.options;
+    if (maxDepth === null || depth < maxDepth) {
+      context.run.total += node.children.length;
       nodeData.children = [];
-      for (const child of (node as any).children) {
-        nodeData.children.push(extractNodeData(child, expandContent));
+      for (const child of node.children) {
+        nodeData.children.push(await extractNodeData(child, context, root, depth + 1));
       }
     } else {
-      nodeData.childrenCount = (node as any).children.length;
+      nodeData.childrenCount = node.children.length;
+      if (node.children.length > 0) {
+        nodeData.truncated = true;
+        nodeData.summary = summarizeSubtree(node.children);
+      }
     }
   }
   
   return nodeData;
 }
 
-// Function to send selection data to UI
-function sendSelectionToUI(expandContent = false) {
+// Function to render a selected node as a base64 PNG at the given scale
+async function exportPreview(node: SceneNode, scale: number): Promise<PreviewImage | null> {
+  try {
+    const bytes = await node.exportAsync({ format: 'PNG', constraint: { type: 'SCALE', value: scale } });
+    return {
+      name: node.name,
+      file: `${node.name.replace(/[\\/:*?"<>|]+/g, '-')}@${scale}x.png`,
+      scale,
+      base64: figma.base64Encode(bytes)
+    };
+  } catch (error) {
+    console.error('Error exporting PNG:', error);
+    return null;
+  }
+}
+
+// Function to extract the selected nodes as one run, with the options' post-processing applied
+async function extractSelection(selection: readonly SceneNode[], options: ExtractOptions, cache: NodeCache, control: RunControl) {
+  const context: ExtractContext = {
+    options,
+    references: createReferenceResolver(),
+    cache,
+    run: {
+      ...control,
+      processed: 0,
+      total: selection.length
+    }
+  };
+  const data: any[] = [];
+  const images: PreviewImage[] = [];
+  for (const node of selection) {
+    const nodeData = await extractNodeData(node, context);
+    // Annotations read fills and sizes, so they run before defaults are dropped
+    const annotatedData = options.annotations ? annotateAccessibility(nodeData) : nodeData;
+    const trimmedData = options.omitDefaults ? omitDefaultValues(annotatedData) : annotatedData;
+    const rootData = options.templates ? deduplicateSubtrees(trimmedData) : trimmedData;
+
+    // Render a PNG to go with the structure, referenced from the node data by file name;
+    // roots left unchanged by an edit keep the one rendered before
+    let image = options.previewScale ? cache.getPreview(node.id, options.previewScale) ?? null : null;
+    if (options.previewScale && !image) {
+      image = await exportPreview(node, options.previewScale);
+      if (image && !context.run.isStale()) cache.setPreview(node.id, image);
+    }
+    if (image) {
+      images.push(image);
+      data.push({ ...rootData, image: { format: 'PNG', scale: image.scale, file: image.file } });
+    } else {
+      data.push(rootData);
+    }
+  }
+  return { data, images };
+}
+
+// Function to extract the selection with the snapshot options, flattened into snapshot nodes.
+// Snapshot runs leave the UI's run alone and are never replaced, so a save always completes
+async function extractSnapshotNodes(selection: readonly SceneNode[]) {
+  const control: RunControl = { isStale: () => false, showsProgress: false };
+  const { data } = await extractSelection(selection, SNAPSHOT_OPTIONS, createNodeCache(), control);
+  return collectSnapshotNodes(selection, data);
+}
+
+// Function to send the snapshots saved for this file to the UI
+async function sendSnapshotsToUI() {
+  try {
+    const snapshots = await loadSnapshots();
+    postToUI({
+      type: 'snapshots',
+      snapshots: snapshots.map(summarizeSnapshot)
+    });
+  } catch (error) {
+    console.error('Error loading snapshots:', error);
+  }
+}
+
+// Function to save the current selection as a named snapshot
+async function takeSnapshot(name: string) {
   const selection = figma.currentPage.selection;
-  
   if (selection.length === 0) {
-    figma.ui.postMessage({
+    figma.notify('Select the layers to snapshot first');
+    return;
+  }
+
+  try {
+    await saveSnapshot({
+      id: String(Date.now()),
+      name,
+      file: figma.root.name,
+      createdAt: Date.now(),
+      rootIds: selection.map(node => node.id),
+      nodes: await extractSnapshotNodes(selection)
+    });
+    figma.notify(`Saved snapshot "${name}"`);
+    sendSnapshotsToUI();
+  } catch (error) {
+    console.error('Error saving snapshot:', error);
+    postToUI({
+      type: 'error',
+      message: 'Failed to save snapshot'
+    });
+  }
+}
+
+// Function to delete a snapshot and send the remaining ones to the UI
+async function removeSnapshot(id: string) {
+  try {
+    await deleteSnapshot(id);
+    sendSnapshotsToUI();
+  } catch (error) {
+    console.error('Error deleting snapshot:', error);
+  }
+}
+
+// Function to send the diff between a snapshot and the current selection to the UI
+async function sendDiffToUI(id: string) {
+  try {
+    const snapshot = (await loadSnapshots()).find(item => item.id === id);
+    if (!snapshot) {
+      postToUI({
+        type: 'error',
+        message: 'Snapshot not found'
+      });
+      return;
+    }
+
+    // An empty selection diffs the snapshot's own roots, found again by id
+    let selection: readonly SceneNode[] = figma.currentPage.selection;
+    if (selection.length === 0) {
+      const roots = await Promise.all(snapshot.rootIds.map(rootId => figma.getNodeByIdAsync(rootId)));
+      selection = roots.filter((node): node is SceneNode => node !== null && 'visible' in node);
+    }
+
+    postToUI({
+      type: 'diff',
+      diff: diffSnapshots(snapshot, await extractSnapshotNodes(selection))
+    });
+  } catch (error) {
+    console.error('Error comparing snapshot:', error);
+    postToUI({
+      type: 'error',
+      message: 'Failed to compare snapshot'
+    });
+  }
+}
+
+// Function to send selection data to UI, or the nodes of the page or document scope
+async function sendSelectionToUI() {
+  const selection = figma.currentPage.selection;
+  const options = { ...extractOptions };
+  // Starting a run makes any run still in progress stale
+  const runId = ++currentRunId;
+  
+  if (options.scope === 'selection' && selection.length === 0) {
+    postToUI({
       type: 'selectionChange',
       data: null
     });
@@ -126,27 +1180,130 @@ function sendSelectionToUI(expandContent = false) {
   }
   
   try {
-    // Extract complete data for each selected node
-    const selectionData = selection.map(node => extractNodeData(node, expandContent));
+    // Other scopes lead with a table of contents of their pages and frames
+    const { roots, contents } = options.scope === 'selection'
+      ? { roots: selection, contents: undefined }
+      : await collectScope(options.scope, options.filter);
+    if (runId !== currentRunId) return;
+
+    // Extract complete data for each node
+    nodeCache.useOptions(JSON.stringify([options.groups, options.referencesOnly, options.svgVectors]));
+    const control: RunControl = { isStale: () => runId !== currentRunId, showsProgress: true };
+    const { data: selectionData, images } = await extractSelection(roots, options, nodeCache, control);
     
-    // Send the data to the UI
-    figma.ui.postMessage({
+    // Send the data to the UI unless a newer run started during the last steps
+    if (runId !== currentRunId) return;
+    postToUI({
       type: 'selectionChange',
-      data: selectionData
+      data: selectionData,
+      images,
+      contents
     });
   } catch (error) {
+    // A stale run is dropped silently; the newer run reports for it
+    if (error instanceof ExtractionCancelledError) return;
     console.error('Error sending selection data:', error);
-    figma.ui.postMessage({
+    postToUI({
       type: 'error',
       message: 'Failed to process selection data'
     });
   }
 }
 
-// Listen for selection changes
-figma.on('selectionchange', () => {
-  sendSelectionToUI(false); // Default to not expanded
-});
+// Function to refresh the output once edits pause, unless there is nothing selected to refresh;
+// typing fires a change per keystroke, and each refresh may re-export a whole page
+function refreshAfterEdit() {
+  if (refreshTimer !== null) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    if (extractOptions.scope !== 'selection' || figma.currentPage.selection.length > 0) {
+      sendSelectionToUI();
+    }
+  }, EDIT_REFRESH_DELAY);
+}
+
+// Function to invalidate cached nodes touched by edits on the current page, and refresh the
+// output when the selection is among them
+function handleNodeChange(event: NodeChangeEvent) {
+  const changedIds: string[] = [];
+  const ancestorIds: string[] = [];
+  for (const change of event.nodeChanges) {
+    // Ancestors are included so edits below the depth limit still update summaries; an edit
+    // inside an instance is an override, which changes the instance as a whole
+    changedIds.push(change.id);
+    let parent = change.node.removed ? null : change.node.parent;
+    while (parent && parent.type !== 'PAGE' && parent.type !== 'DOCUMENT') {
+      (parent.type === 'INSTANCE' ? changedIds : ancestorIds).push(parent.id);
+      parent = parent.parent;
+    }
+  }
+  if (nodeCache.invalidate(changedIds, ancestorIds)) refreshAfterEdit();
+}
+
+// Function to drop the whole cache when a style changes, since style names and values are
+// copied into every node using them
+function handleStyleChange() {
+  nodeCache.clear();
+  refreshAfterEdit();
+}
+
+// Function to follow edits on the page being viewed; other pages can't be edited until they're viewed
+function watchCurrentPage() {
+  watchedPage?.off('nodechange', handleNodeChange);
+  watchedPage = figma.currentPage;
+  watchedPage.on('nodechange', handleNodeChange);
+}
+
+// Function to extract the node inspected in Dev Mode with the options chosen in the codegen preferences
+async function generateCodeSections(event: CodegenEvent): Promise<CodegenResult[]> {
+  const { customSettings } = figma.codegen.preferences;
+  const profile = EXTRACT_PROFILES.find(item => item.id === customSettings.profile) ?? EXTRACT_PROFILES[0];
+  const options: ExtractOptions = {
+    ...DEFAULT_EXTRACT_OPTIONS,
+    groups: profile.groups,
+    maxDepth: customSettings.depth === 'all' ? null : Number(customSettings.depth ?? DEFAULT_CODEGEN_DEPTH),
+    omitDefaults: customSettings.omitDefaults === 'on'
+  };
+
+  try {
+    // Each inspected node gets a fresh cache, since edits aren't tracked without the UI
+    const runId = ++currentRunId;
+    const control: RunControl = { isStale: () => runId !== currentRunId, showsProgress: false };
+    const { data } = await extractSelection([event.node], options, createNodeCache(), control);
+    return [{
+      title: event.node.name,
+      code: getSerializer(event.language).serialize(data[0], { codeFlavor: 'html' }),
+      language: CODEGEN_LANGUAGES[event.language] ?? 'PLAINTEXT'
+    }];
+  } catch (error) {
+    // A node inspected before this one finished makes it stale; its sections are never shown
+    if (error instanceof ExtractionCancelledError) return [];
+    throw error;
+  }
+}
+
+if (figma.mode === 'codegen') {
+  // Generate the output for the node inspected in Dev Mode
+  figma.codegen.on('generate', generateCodeSections);
+} else {
+  // Show UI with appropriate size
+  figma.showUI(__html__, { themeColors: true, width: 360, height: 400 });
+
+  // Listen for selection changes; page and document scopes don't depend on the selection
+  figma.on('selectionchange', () => {
+    if (extractOptions.scope === 'selection') sendSelectionToUI();
+  });
+
+  // Page scopes follow the page being viewed, and so do edits
+  figma.on('currentpagechange', () => {
+    watchCurrentPage();
+    if (extractOptions.scope === 'page' || extractOptions.scope === 'frames') sendSelectionToUI();
+  });
+
+  // Listen for edits without loading every page, which documentchange would need
+  watchCurrentPage();
+  figma.on('stylechange', handleStyleChange);
 
-// Send initial selection data with expanded content by default
-sendSelectionToUI(true);
\ No newline at end of file
+  // Send initial selection data
+  sendSelectionToUI();
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { parsePatch } from '../utils/patch';
+import type { PatchOperation } from '../types/patch';
+
+type ApplyPanelProps = {
+  nodeIds: boolean;
+  onApply: (operations: PatchOperation[]) => void;
+};
+
+// Paste a JSON patch written against the exported node ids and apply it to the canvas
+const ApplyPanel = ({ nodeIds, onApply }: ApplyPanelProps) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPatch = () => {
+    try {
+      onApply(parsePatch(text));
+      setError(null);
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : 'Invalid patch');
+    }
+  };
+
+  return (
+    <div className="apply-panel">
+      <textarea
+        rows={5}
+        placeholder='{"operations": [{"op": "rename", "id": "12:34", "name": "Primary button"}]}'
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        spellCheck={false}
+      />
+      {error && <pre className="apply-error">{error}</pre>}
+      <div className="apply-row">
+        <span className="apply-hint">
+          {nodeIds ? 'Exports include node ids' : 'Check Ids so exports include the node ids patches refer to'}
+        </span>
+        <button onClick={applyPatch} disabled={!text.trim()}>Apply</button>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyPanel;
@@ -1,6 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { DEFAULT_EXTRACT_OPTIONS } from '../constants';
+import { CODE_FLAVORS, CodeFlavor } from '../utils/codegen';
+import { getSerializer, OutputFormat, SERIALIZERS } from '../utils/serializers';
+import { serializeWithContents } from '../utils/serializers/contents';
+import { countTokens, formatTokenCount, getTokenizerModel, TOKENIZER_MODELS, TokenizerModel } from '../utils/tokenizer';
+import { fitToBudget } from '../utils/budget';
+import { getProfiles, matchProfile, normalizeCustomProfiles, normalizeGroups, toProfileId } from '../utils/profiles';
+import { postToPlugin } from '../utils/messages';
+import { formatChangelog } from '../utils/diff';
+import { formatMermaid } from '../utils/flows';
+import { formatPatchResult, PATCH_EXAMPLE } from '../utils/patch';
+import { DEFAULT_PROMPT_TEMPLATES, normalizePromptTemplates, PromptTemplate, renderPrompt } from '../utils/prompts';
+import type { ExtractOptions, ExtractProfile, ExtractScope, NodeFilter, PageContents, PropertyGroup } from '../types/extraction';
+import type { PluginMessage, PreviewImage } from '../types/messages';
+import type { PatchOperation, PatchResult } from '../types/patch';
+import type { FlowGraph } from '../types/prototype';
+import type { DesignDiff, SnapshotSummary } from '../types/snapshots';
+import ApplyPanel from './ApplyPanel';
+import ProfileEditor from './ProfileEditor';
+import PromptBar from './PromptBar';
+import SnapshotBar, { DiffFormat } from './SnapshotBar';
+import TokenBreakdown from './TokenBreakdown';
 import '../styles/DefaultView.scss';
 
 // SVG components for copy and success icons
@@ -16,114 +38,510 @@ const TickIcon = () => (
   </svg>
 );
 
-// Function to calculate tokens more accurately
-function calculateTokens(text: string): number {
-  if (!text) return 0;
-  
-  // Count tokens based on different types of content
-  // This is a more accurate approximation than just dividing by 4
-  
-  // Count words (good approximation for natural language)
-  const wordCount = text.split(/\s+/).filter(word => word.length > 0).length;
-  
-  // Count special characters (brackets, quotes, etc. in JSON)
-  const specialChars = (text.match(/[{}\[\]",:]/g) || []).length;
-  
-  // Count numbers (which are often single tokens)
-  const numbers = (text.match(/\d+(\.\d+)?/g) || []).length;
-  
-  // Combine with appropriate weights
-  // For JSON, structure characters and numbers are significant
-  return Math.max(1, Math.round(wordCount * 1.3 + specialChars * 0.3 + numbers * 0.5));
-}
-
-// Format token count to show shorter versions for large numbers (1k, 1.5k, etc.)
-const formatTokenCount = (count: number): string => {
-  if (count < 1000) {
-    return count.toString();
-  } else if (count < 10000) {
-    // For 1000-9999, show as 1.5k format
-    return (Math.round(count / 100) / 10).toFixed(1) + 'k';
-  } else {
-    // For 10000+, show as 10k format without decimal
-    return Math.round(count / 1000) + 'k';
-  }
-};
+// Depth limits offered in the UI; null recurses through the whole hierarchy
+const DEPTH_OPTIONS: (number | null)[] = [null, 0, 1, 2, 3, 4, 5, 6, 8, 10];
+
+// PNG scales offered in the UI; null renders no image
+const PREVIEW_SCALES: (number | null)[] = [null, 1, 2, 3];
+
+// Scopes offered in the UI
+const SCOPE_OPTIONS: { id: ExtractScope; label: string }[] = [
+  { id: 'selection', label: 'Selection' },
+  { id: 'page', label: 'Current page' },
+  { id: 'frames', label: 'Frames on page' },
+  { id: 'document', label: 'Entire document' }
+];
+
+// Node types the page and document scopes can be filtered by; null keeps every type, which
+// for the frames and document scopes means frames, components and component sets
+const FILTER_TYPES: { id: NodeType | null; label: string }[] = [
+  { id: null, label: 'Any type' },
+  { id: 'FRAME', label: 'Frame' },
+  { id: 'COMPONENT', label: 'Component' },
+  { id: 'COMPONENT_SET', label: 'Component set' },
+  { id: 'INSTANCE', label: 'Instance' },
+  { id: 'GROUP', label: 'Group' },
+  { id: 'SECTION', label: 'Section' }
+];
+
+// The Tokens tab shows document-level design tokens, the Diff tab the changes since
+// a snapshot, the Flows tab the page's prototype flows and the Apply tab the result of
+// applying a patch, instead of the serialized selection
+type ViewTab = OutputFormat | 'tokens' | 'diff' | 'flows' | 'apply';
+
+type FlowFormat = 'json' | 'mermaid';
 
 const DefaultView = () => {
   const [selectionData, setSelectionData] = useState<any>(null);
-  const [includeChildren, setIncludeChildren] = useState(true);
-  const [activeTab, setActiveTab] = useState('minified');
+  const [maxDepth, setMaxDepth] = useState<number | null>(null);
+  const [tokenBudget, setTokenBudget] = useState<number | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [referencesOnly, setReferencesOnly] = useState(false);
+  const [instanceOverridesOnly, setInstanceOverridesOnly] = useState(false);
+  const [groups, setGroups] = useState<PropertyGroup[]>(DEFAULT_EXTRACT_OPTIONS.groups);
+  const [customProfiles, setCustomProfiles] = useState<ExtractProfile[]>([]);
+  const [omitDefaults, setOmitDefaults] = useState(false);
+  const [templates, setTemplates] = useState(false);
+  const [svgVectors, setSvgVectors] = useState(false);
+  const [annotations, setAnnotations] = useState(false);
+  const [nodeIds, setNodeIds] = useState(false);
+  const [patchResult, setPatchResult] = useState<PatchResult | null>(null);
+  const [previewScale, setPreviewScale] = useState<number | null>(null);
+  const [images, setImages] = useState<PreviewImage[]>([]);
+  const [scope, setScope] = useState<ExtractScope>('selection');
+  const [filter, setFilter] = useState<NodeFilter>(DEFAULT_EXTRACT_OPTIONS.filter);
+  const [namePattern, setNamePattern] = useState('');
+  const [contents, setContents] = useState<PageContents[] | null>(null);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [activeTab, setActiveTab] = useState<ViewTab>('minified');
+  const [tokensData, setTokensData] = useState<any>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [snapshotId, setSnapshotId] = useState<string | null>(null);
+  const [diffData, setDiffData] = useState<DesignDiff | null>(null);
+  const [diffFormat, setDiffFormat] = useState<DiffFormat>('changelog');
+  const [flowsData, setFlowsData] = useState<FlowGraph | null>(null);
+  const [flowFormat, setFlowFormat] = useState<FlowFormat>('mermaid');
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(DEFAULT_PROMPT_TEMPLATES);
+  const [promptTemplateId, setPromptTemplateId] = useState<string | null>(null);
+  const [codeFlavor, setCodeFlavor] = useState<CodeFlavor>('html');
+  const [tokenizerModel, setTokenizerModel] = useState<TokenizerModel>('o200k');
+  const [showBreakdown, setShowBreakdown] = useState(false);
   const [copied, setCopied] = useState(false);
   
-  // Safely handle JSON data
-  const [prettyJson, setPrettyJson] = useState('');
-  const [minifiedJson, setMinifiedJson] = useState('');
-  const [prettyTokenCount, setPrettyTokenCount] = useState(0);
-  const [minifiedTokenCount, setMinifiedTokenCount] = useState(0);
+  // Serialized output and token count for the active format
+  const [output, setOutput] = useState('');
+  const [tokenCount, setTokenCount] = useState(0);
+  
+  // Get the first selected item if it's an array, or use the data as is
+  const dataToShow = useMemo(() => (
+    Array.isArray(selectionData) && selectionData.length === 1 ? selectionData[0] : selectionData
+  ), [selectionData]);
+  
+  // Built-in and saved profiles, and the one matching the chosen groups
+  const profiles = useMemo(() => getProfiles(customProfiles), [customProfiles]);
+  const activeProfile = useMemo(() => matchProfile(profiles, groups), [profiles, groups]);
+  
+  // Serializer for the active format, also used to count tokens per subtree
+  const serialize = useCallback((data: unknown) => (
+    getSerializer(activeTab).serialize(data, { codeFlavor })
+  ), [activeTab, codeFlavor]);
+  
+  // Page and document exports lead with their table of contents
+  const serializeOutput = useCallback((data: unknown) => (
+    contents
+      ? serializeWithContents(getSerializer(activeTab), contents, data, { codeFlavor })
+      : serialize(data)
+  ), [contents, activeTab, codeFlavor, serialize]);
   
-  // Update JSON strings when selection data changes
+  // Update the output when selection data or the chosen format changes
   useEffect(() => {
-    if (selectionData) {
+    if (activeTab === 'tokens') {
+      const tokens = tokensData ?? { message: "Loading tokens…" };
+      setOutput(JSON.stringify(tokens, null, 2));
+      setTokenCount(tokensData ? countTokens(JSON.stringify(tokensData, null, 2), tokenizerModel) : 0);
+    } else if (activeTab === 'apply') {
+      // The patch format until a patch is applied, so it can be copied into a prompt
+      const applyOutput = patchResult
+        ? formatPatchResult(patchResult)
+        : JSON.stringify(PATCH_EXAMPLE, null, 2);
+      setOutput(applyOutput);
+      setTokenCount(countTokens(applyOutput, tokenizerModel));
+    } else if (activeTab === 'flows') {
+      // JSON for generating routers, or a Mermaid flowchart to read and paste
+      const flowsOutput = flowsData
+        ? (flowFormat === 'json' ? JSON.stringify(flowsData, null, 2) : formatMermaid(flowsData))
+        : 'Loading flows…';
+      setOutput(flowsOutput);
+      setTokenCount(flowsData ? countTokens(flowsOutput, tokenizerModel) : 0);
+    } else if (activeTab === 'diff') {
+      // Compact JSON for tools, or a changelog to paste into a prompt
+      if (diffData) {
+        const diffOutput = diffFormat === 'json' ? JSON.stringify(diffData) : formatChangelog(diffData);
+        setOutput(diffOutput);
+        setTokenCount(countTokens(diffOutput, tokenizerModel));
+      } else {
+        setOutput(snapshotId ? 'Comparing…' : 'Save a snapshot of the selection, then pick it here after the design changes.');
+        setTokenCount(0);
+      }
+    } else if (dataToShow) {
       try {
-        // Get the first selected item if it's an array, or use the data as is
-        const dataToShow = Array.isArray(selectionData) && selectionData.length === 1 
-          ? selectionData[0] 
-          : selectionData;
-        
-        // Format pretty JSON with 2-space indentation
-        const pretty = JSON.stringify(dataToShow, null, 2);
+        // Exact count with the selected model's BPE vocabulary
+        const measure = (data: unknown) => countTokens(serializeOutput(data), tokenizerModel);
         
-        // Ensure maximum minification by removing any possible whitespace
-        const minified = JSON.stringify(dataToShow).replace(/\s+/g, '');
+        // Cut the data down to the token budget when one is set
+        const fitted = tokenBudget 
+          ? fitToBudget(dataToShow, tokenBudget, measure) 
+          : { data: dataToShow, tokens: measure(dataToShow), truncated: false };
         
-        setPrettyJson(pretty);
-        setMinifiedJson(minified);
-        // More accurate token calculation
-        // GPT models generally use ~4 chars per token on average, but it varies by content
-        // This is still an approximation but better than a fixed divisor
-        setPrettyTokenCount(calculateTokens(pretty));
-        setMinifiedTokenCount(calculateTokens(minified));
+        setOutput(serializeOutput(fitted.data));
+        setTokenCount(fitted.tokens);
+        setTruncated(fitted.truncated);
       } catch (error) {
-        console.error('Error stringifying selection data:', error);
+        console.error('Error serializing selection data:', error);
       }
     } else {
-      setPrettyJson('');
-      setMinifiedJson('');
-      setPrettyTokenCount(0);
-      setMinifiedTokenCount(0);
+      // Set placeholder JSON when no selection is made
+      const placeholder = {
+        message: "Select element(s)"
+      };
+      setOutput(activeTab === 'minified' ? JSON.stringify(placeholder) : JSON.stringify(placeholder, null, 2));
+      // Don't set token counts for placeholder
+      setTokenCount(0);
+    }
+  }, [dataToShow, activeTab, serializeOutput, tokensData, tokenizerModel, tokenBudget, diffData, diffFormat, snapshotId, flowsData, flowFormat, patchResult]);
+  
+  // Compare the selection with the chosen snapshot again whenever it changes
+  useEffect(() => {
+    if (activeTab === 'diff' && snapshotId) {
+      postToPlugin({
+        type: 'diffSnapshot',
+        id: snapshotId
+      });
     }
-  }, [selectionData]);
+  }, [activeTab, snapshotId, selectionData]);
 
   useEffect(() => {
     // Listen for messages from the plugin (canvas.ts)
     window.onmessage = (event) => {
-      const message = event.data.pluginMessage;
+      const message: PluginMessage | undefined = event.data.pluginMessage;
       
       if (message && message.type === 'selectionChange') {
         setSelectionData(message.data);
+        setImages(message.images ?? []);
+        setContents(message.contents ?? null);
+        setProgress(null);
+      } else if (message && message.type === 'extractionProgress') {
+        setProgress({ processed: message.processed, total: message.total });
+      } else if (message && (message.type === 'extractionCancelled' || message.type === 'error')) {
+        setProgress(null);
+      } else if (message && message.type === 'snapshots') {
+        setSnapshots(message.snapshots);
+        // Forget a snapshot that was just deleted
+        setSnapshotId(current => (message.snapshots.some(snapshot => snapshot.id === current) ? current : null));
+      } else if (message && message.type === 'diff') {
+        setDiffData(message.diff);
+      } else if (message && message.type === 'tokens') {
+        setTokensData(message.data);
+      } else if (message && message.type === 'flows') {
+        setFlowsData(message.graph);
+      } else if (message && message.type === 'patchResult') {
+        setPatchResult(message.result);
+      } else if (message && message.type === 'settings') {
+        // Restore the format chosen in a previous session
+        if (message.settings.outputFormat) {
+          setActiveTab(getSerializer(message.settings.outputFormat).id);
+        }
+        if (CODE_FLAVORS.some(flavor => flavor.id === message.settings.codeFlavor)) {
+          setCodeFlavor(message.settings.codeFlavor);
+        }
+        if (message.settings.tokenizerModel) {
+          setTokenizerModel(getTokenizerModel(message.settings.tokenizerModel).id);
+        }
+        // Restore prompt templates and the one last wrapped around copies
+        if (Array.isArray(message.settings.promptTemplates)) {
+          setPromptTemplates(normalizePromptTemplates(message.settings.promptTemplates));
+        }
+        if (typeof message.settings.promptTemplateId === 'string') {
+          setPromptTemplateId(message.settings.promptTemplateId);
+        }
+        // Restore saved profiles and the last-used extraction setup
+        setCustomProfiles(normalizeCustomProfiles(message.settings.customProfiles));
+        const restoredOptions: Partial<ExtractOptions> = {};
+        if (Array.isArray(message.settings.profileGroups)) {
+          restoredOptions.groups = normalizeGroups(message.settings.profileGroups);
+          setGroups(restoredOptions.groups);
+        }
+        if (typeof message.settings.omitDefaults === 'boolean') {
+          restoredOptions.omitDefaults = message.settings.omitDefaults;
+          setOmitDefaults(restoredOptions.omitDefaults);
+        }
+        if (Object.keys(restoredOptions).length > 0) {
+          postToPlugin({
+            type: 'updateOptions',
+            options: restoredOptions
+          });
+        }
       }
     };
     
     // Send initialization message to get initial selection data
-    parent.postMessage({
-      pluginMessage: {
-        type: 'init'
-      }
-    }, '*');
+    postToPlugin({
+      type: 'init'
+    });
   }, []);
   
-  // Send message to the plugin when include children toggle changes
-  useEffect(() => {
-    if (selectionData) {
-      parent.postMessage({
-        pluginMessage: {
-          type: 'toggleExpand',
-          expandContent: includeChildren
-        }
-      }, '*');
-    }
-  }, [includeChildren, selectionData]);
+  // Send message to the plugin when the depth limit changes
+  const selectMaxDepth = (depth: number | null) => {
+    setMaxDepth(depth);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { maxDepth: depth }
+    });
+  };
+
+  // Send message to the plugin when the token references toggle changes
+  const toggleReferencesOnly = () => {
+    const nextReferencesOnly = !referencesOnly;
+    setReferencesOnly(nextReferencesOnly);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { referencesOnly: nextReferencesOnly }
+    });
+  };
+
+  // Send message to the plugin when the instance overrides toggle changes
+  const toggleInstanceOverridesOnly = () => {
+    const nextInstanceOverridesOnly = !instanceOverridesOnly;
+    setInstanceOverridesOnly(nextInstanceOverridesOnly);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { instanceOverridesOnly: nextInstanceOverridesOnly }
+    });
+  };
+
+  // Send the chosen property groups to the plugin and remember them between sessions
+  const selectGroups = (nextGroups: PropertyGroup[]) => {
+    setGroups(nextGroups);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { groups: nextGroups }
+    });
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'profileGroups',
+      value: nextGroups
+    });
+  };
+
+  // Store the current groups as a custom profile, replacing one with the same name
+  const saveProfile = (name: string) => {
+    const id = toProfileId(name);
+    const nextCustomProfiles = [
+      ...customProfiles.filter(profile => profile.id !== id),
+      { id, name, groups, custom: true }
+    ];
+    setCustomProfiles(nextCustomProfiles);
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'customProfiles',
+      value: nextCustomProfiles
+    });
+  };
+
+  const deleteProfile = (id: string) => {
+    const nextCustomProfiles = customProfiles.filter(profile => profile.id !== id);
+    setCustomProfiles(nextCustomProfiles);
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'customProfiles',
+      value: nextCustomProfiles
+    });
+  };
+
+  // Send message to the plugin when the default values toggle changes, and remember it
+  const toggleOmitDefaults = () => {
+    const nextOmitDefaults = !omitDefaults;
+    setOmitDefaults(nextOmitDefaults);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { omitDefaults: nextOmitDefaults }
+    });
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'omitDefaults',
+      value: nextOmitDefaults
+    });
+  };
+
+  // Send message to the plugin when the templates toggle changes
+  const toggleTemplates = () => {
+    const nextTemplates = !templates;
+    setTemplates(nextTemplates);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { templates: nextTemplates }
+    });
+  };
+
+  // Send message to the plugin when the scope changes
+  const selectScope = (nextScope: ExtractScope) => {
+    setScope(nextScope);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { scope: nextScope }
+    });
+  };
+
+  // Send message to the plugin when the filter changes; the name pattern is sent once typed
+  const changeFilter = (nextFilter: NodeFilter) => {
+    if (nextFilter.type === filter.type && nextFilter.name === filter.name) return;
+    setFilter(nextFilter);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { filter: nextFilter }
+    });
+  };
+
+  // Send message to the plugin when the SVG toggle changes
+  const toggleSvgVectors = () => {
+    const nextSvgVectors = !svgVectors;
+    setSvgVectors(nextSvgVectors);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { svgVectors: nextSvgVectors }
+    });
+  };
+
+  // Send message to the plugin when the accessibility toggle changes
+  const toggleAnnotations = () => {
+    const nextAnnotations = !annotations;
+    setAnnotations(nextAnnotations);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { annotations: nextAnnotations }
+    });
+  };
+
+  // Send message to the plugin when the node ids toggle changes
+  const toggleNodeIds = () => {
+    const nextNodeIds = !nodeIds;
+    setNodeIds(nextNodeIds);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { nodeIds: nextNodeIds }
+    });
+  };
+
+  // Send a pasted patch to the plugin to apply to the canvas
+  const applyPatch = (operations: PatchOperation[]) => {
+    setPatchResult(null);
+    postToPlugin({
+      type: 'applyPatch',
+      operations
+    });
+  };
+
+  // Send message to the plugin when the image scale changes
+  const selectPreviewScale = (scale: number | null) => {
+    setPreviewScale(scale);
+    postToPlugin({
+      type: 'updateOptions',
+      options: { previewScale: scale }
+    });
+  };
+
+  // Save a rendered PNG through a temporary download link
+  const downloadImage = (image: PreviewImage) => {
+    const link = document.createElement('a');
+    link.href = `data:image/png;base64,${image.base64}`;
+    link.download = image.file;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Read local variables and styles from the document each time the Tokens tab is opened
+  const selectTokensTab = () => {
+    setActiveTab('tokens');
+    setTokensData(null);
+    postToPlugin({
+      type: 'exportTokens'
+    });
+  };
+
+  // Read the current page's prototype flows each time the Flows tab is opened
+  const selectFlowsTab = () => {
+    setActiveTab('flows');
+    setFlowsData(null);
+    postToPlugin({
+      type: 'exportFlows'
+    });
+  };
+
+  // List the snapshots saved for this file each time the Diff tab is opened
+  const selectDiffTab = () => {
+    setActiveTab('diff');
+    postToPlugin({
+      type: 'listSnapshots'
+    });
+  };
+
+  const selectSnapshot = (id: string | null) => {
+    setSnapshotId(id);
+    setDiffData(null);
+  };
+
+  // Switch format and remember the choice between sessions
+  const selectTab = (format: OutputFormat) => {
+    setActiveTab(format);
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'outputFormat',
+      value: format
+    });
+  };
+
+  // Switch generated code flavor and remember the choice between sessions
+  const selectCodeFlavor = (flavor: CodeFlavor) => {
+    setCodeFlavor(flavor);
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'codeFlavor',
+      value: flavor
+    });
+  };
+
+  // Switch the model used for token counts and remember the choice between sessions
+  const selectTokenizerModel = (model: TokenizerModel) => {
+    setTokenizerModel(model);
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'tokenizerModel',
+      value: model
+    });
+  };
+
+  // Remember prompt templates and the chosen one between sessions
+  const changePromptTemplates = (templates: PromptTemplate[]) => {
+    setPromptTemplates(templates);
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'promptTemplates',
+      value: templates
+    });
+  };
+
+  const selectPromptTemplate = (id: string | null) => {
+    setPromptTemplateId(id);
+    postToPlugin({
+      type: 'saveSetting',
+      key: 'promptTemplateId',
+      value: id
+    });
+  };
+
+  // The output as copied: wrapped in the chosen prompt template, if any
+  const getCopyText = () => {
+    const template = promptTemplates.find(item => item.id === promptTemplateId);
+    if (!template) return output;
+
+    const selectionName = (Array.isArray(selectionData) ? selectionData : [])
+      .map((node: any) => node?.name)
+      .filter(Boolean)
+      .join(', ');
+    const format = activeTab === 'tokens' ? 'Design tokens (DTCG JSON)'
+      : activeTab === 'diff' ? `Diff (${diffFormat === 'json' ? 'JSON' : 'changelog'})`
+      : activeTab === 'flows' ? `Prototype flows (${flowFormat === 'json' ? 'JSON' : 'Mermaid'})`
+      : activeTab === 'apply' ? (patchResult ? 'Patch result' : 'Patch format (JSON)')
+      : getSerializer(activeTab).label;
+    return renderPrompt(template, {
+      data: output,
+      selectionName,
+      format,
+      tokenCount: String(tokenCount)
+    });
+  };
 
   const copyToClipboard = (text: string) => {
     try {
@@ -139,12 +557,10 @@ const DefaultView = () => {
           }, 2000);
           
           // Show Figma native notification
-          parent.postMessage({
-            pluginMessage: {
-              type: 'notify',
-              message: 'Copied to clipboard!'
-            }
-          }, '*');
+          postToPlugin({
+            type: 'notify',
+            message: 'Copied to clipboard!'
+          });
         });
       } else {
         // Fallback to the older method for non-secure contexts
@@ -171,97 +587,353 @@ const DefaultView = () => {
           }, 2000);
           
           // Show Figma native notification
-          parent.postMessage({
-            pluginMessage: {
-              type: 'notify',
-              message: 'Copied to clipboard!'
-            }
-          }, '*');
+          postToPlugin({
+            type: 'notify',
+            message: 'Copied to clipboard!'
+          });
         } else {
           console.error('Failed to copy text');
-          parent.postMessage({
-            pluginMessage: {
-              type: 'notify',
-              message: 'Failed to copy to clipboard'
-            }
-          }, '*');
+          postToPlugin({
+            type: 'notify',
+            message: 'Failed to copy to clipboard'
+          });
         }
       }
     } catch (err) {
       console.error('Copy to clipboard failed:', err);
-      parent.postMessage({
-        pluginMessage: {
-          type: 'notify',
-          message: 'Failed to copy to clipboard'
-        }
-      }, '*');
+      postToPlugin({
+        type: 'notify',
+        message: 'Failed to copy to clipboard'
+      });
     }
   };
 
-  // Set placeholder JSON when no selection is made
-  useEffect(() => {
-    if (!selectionData) {
-      const placeholder = {
-        message: "Select element(s)"
-      };
-      setPrettyJson(JSON.stringify(placeholder, null, 2));
-      setMinifiedJson(JSON.stringify(placeholder));
-      // Don't set token counts for placeholder
-      setPrettyTokenCount(0);
-      setMinifiedTokenCount(0);
-    }
-  }, [selectionData]);
-
   return (
     <div className="container">
       
       <div className="tabs">
+        {SERIALIZERS.map(serializer => (
+          <button 
+            key={serializer.id}
+            className={`tab ${activeTab === serializer.id ? 'active' : ''}`}
+            onClick={() => selectTab(serializer.id)}
+          >
+            <span>{serializer.label}</span>
+          </button>
+        ))}
         <button 
-          className={`tab ${activeTab === 'minified' ? 'active' : ''}`}
-          onClick={() => setActiveTab('minified')}
+          className={`tab ${activeTab === 'tokens' ? 'active' : ''}`}
+          onClick={selectTokensTab}
+          title="Local variables and styles as W3C design tokens (DTCG) JSON"
         >
-          <span>Mini JSON</span>
+          <span>Tokens</span>
         </button>
         <button 
-          className={`tab ${activeTab === 'pretty' ? 'active' : ''}`}
-          onClick={() => setActiveTab('pretty')}
+          className={`tab ${activeTab === 'diff' ? 'active' : ''}`}
+          onClick={selectDiffTab}
+          title="Changes to the selection since a saved snapshot"
         >
-          <span>Pretty JSON</span>
+          <span>Diff</span>
+        </button>
+        <button 
+          className={`tab ${activeTab === 'flows' ? 'active' : ''}`}
+          onClick={selectFlowsTab}
+          title="Screens on the current page and the prototype navigation between them"
+        >
+          <span>Flows</span>
+        </button>
+        <button 
+          className={`tab ${activeTab === 'apply' ? 'active' : ''}`}
+          onClick={() => setActiveTab('apply')}
+          title="Apply a JSON patch of edits, such as one written by a model, to the canvas"
+        >
+          <span>Apply</span>
         </button>
       </div>
       
+      {activeTab === 'apply' && (
+        <ApplyPanel nodeIds={nodeIds} onApply={applyPatch} />
+      )}
+      
+      {activeTab === 'diff' && (
+        <SnapshotBar 
+          snapshots={snapshots}
+          snapshotId={snapshotId}
+          diffFormat={diffFormat}
+          onSelectSnapshot={selectSnapshot}
+          onSaveSnapshot={(name) => postToPlugin({ type: 'saveSnapshot', name })}
+          onDeleteSnapshot={(id) => postToPlugin({ type: 'deleteSnapshot', id })}
+          onSelectFormat={setDiffFormat}
+        />
+      )}
+      
       <div className="content-options">
         <div className="left-options">
-          <label className="expand-option" title="When checked, includes all nested children in the JSON output. Includes all levels of the hierarchy.">
+          <label className="expand-option" title="Which nodes to export. Page and document scopes start with a table of contents of their pages and frames.">
+            Scope
+            <select 
+              value={scope}
+              onChange={(event) => selectScope(event.target.value as ExtractScope)}
+            >
+              {SCOPE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {scope !== 'selection' && (
+            <>
+              <label className="expand-option" title="Only export nodes of this type">
+                Type
+                <select 
+                  value={filter.type ?? ''}
+                  onChange={(event) => changeFilter({ ...filter, type: (event.target.value || null) as NodeType | null })}
+                >
+                  {FILTER_TYPES.map(option => (
+                    <option key={option.id ?? 'any'} value={option.id ?? ''}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="expand-option" title="Only export nodes whose name matches this pattern. * matches any characters, e.g. Screen/*">
+                Name
+                <input 
+                  type="text" 
+                  className="name-filter"
+                  placeholder="Screen/*"
+                  value={namePattern}
+                  onChange={(event) => setNamePattern(event.target.value)}
+                  onBlur={() => changeFilter({ ...filter, name: namePattern.trim() })}
+                  onKeyDown={(event) => event.key === 'Enter' && changeFilter({ ...filter, name: namePattern.trim() })}
+                />
+              </label>
+            </>
+          )}
+          <label className="expand-option" title="Which groups of properties to collect for each node">
+            Profile
+            <select 
+              value={activeProfile?.id ?? ''}
+              onChange={(event) => {
+                const profile = profiles.find(item => item.id === event.target.value);
+                if (profile) selectGroups(profile.groups);
+              }}
+            >
+              {!activeProfile && <option value="">Custom</option>}
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </label>
+          <button 
+            className={`profile-edit ${showProfileEditor ? 'active' : ''}`}
+            onClick={() => setShowProfileEditor(!showProfileEditor)}
+            title="Choose property groups and save them as a profile"
+          >
+            Edit
+          </button>
+          <label className="expand-option" title="When checked, properties that still have their Figma default value (opacity 1, no strokes, no rotation...) are left out.">
+            <input 
+              type="checkbox" 
+              checked={omitDefaults} 
+              onChange={toggleOmitDefaults}
+            />
+            Skip defaults
+          </label>
+          <label className="expand-option" title="When checked, repeated subtrees such as list rows, table cells and cards are written once as a template, and each repeat lists only the values that differ.">
+            <input 
+              type="checkbox" 
+              checked={templates} 
+              onChange={toggleTemplates}
+            />
+            Templates
+          </label>
+          <label className="expand-option" title="When checked, vectors, boolean operations and small icon frames carry their SVG markup instead of their child layers.">
+            <input 
+              type="checkbox" 
+              checked={svgVectors} 
+              onChange={toggleSvgVectors}
+            />
+            SVG
+          </label>
+          <label className="expand-option" title="When checked, each node gets a guessed semantic role (button, link, input, heading, list, image, icon) and each root an accessibility report: text contrast, touch targets under 44px and text under 12px.">
+            <input 
+              type="checkbox" 
+              checked={annotations} 
+              onChange={toggleAnnotations}
+            />
+            A11y
+          </label>
+          <label className="expand-option" title="When checked, every node carries its id, so edits pasted into the Apply tab can refer to it.">
+            <input 
+              type="checkbox" 
+              checked={nodeIds} 
+              onChange={toggleNodeIds}
+            />
+            Ids
+          </label>
+          <label className="expand-option" title="Render each selected node as a PNG at this scale, to give a multimodal model a picture next to the structure. The output references the image by file name.">
+            Image
+            <select 
+              value={previewScale === null ? 'off' : String(previewScale)}
+              onChange={(event) => selectPreviewScale(event.target.value === 'off' ? null : Number(event.target.value))}
+            >
+              {PREVIEW_SCALES.map(scale => (
+                <option key={String(scale)} value={scale === null ? 'off' : String(scale)}>
+                  {scale === null ? 'Off' : `${scale}x`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="expand-option" title="How many levels of children to include. Deeper subtrees are collapsed into a summary of their node types and text.">
+            Depth
+            <select 
+              value={maxDepth === null ? 'all' : String(maxDepth)}
+              onChange={(event) => selectMaxDepth(event.target.value === 'all' ? null : Number(event.target.value))}
+            >
+              {DEPTH_OPTIONS.map(depth => (
+                <option key={String(depth)} value={depth === null ? 'all' : String(depth)}>
+                  {depth === null ? 'All' : depth}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="expand-option" title="Target token count. Low-value properties are dropped first, then the deepest subtrees are collapsed into summaries until the output fits.">
+            Budget
+            <input 
+              type="number" 
+              min={0}
+              step={500}
+              placeholder="None"
+              value={tokenBudget ?? ''}
+              onChange={(event) => setTokenBudget(event.target.value ? Number(event.target.value) : null)}
+            />
+          </label>
+          <label className="expand-option" title="When checked, colors, text and effects bound to variables or styles are emitted as token references only, without their resolved values.">
+            <input 
+              type="checkbox" 
+              checked={referencesOnly} 
+              onChange={toggleReferencesOnly}
+            />
+            Refs only
+          </label>
+          <label className="expand-option" title="When checked, component instances are exported as a reference to their main component plus the properties they override, instead of their full subtree.">
             <input 
               type="checkbox" 
-              checked={includeChildren} 
-              onChange={() => setIncludeChildren(!includeChildren)}
+              checked={instanceOverridesOnly} 
+              onChange={toggleInstanceOverridesOnly}
             />
-            Include children
+            Overrides only
           </label>
         </div>
         
-        {(prettyTokenCount > 0 || minifiedTokenCount > 0) && (
-          <div className="token-count">
-            {activeTab === 'pretty' 
-              ? `${formatTokenCount(prettyTokenCount)} tokens` 
-              : `${formatTokenCount(minifiedTokenCount)} tokens`}
-          </div>
+        {activeTab === 'flows' && (
+          <select 
+            className="flow-format"
+            value={flowFormat}
+            onChange={(event) => setFlowFormat(event.target.value as FlowFormat)}
+            title="Format of the flow graph"
+          >
+            <option value="mermaid">Mermaid</option>
+            <option value="json">JSON</option>
+          </select>
+        )}
+        
+        {activeTab === 'code' && (
+          <select 
+            className="code-flavor"
+            value={codeFlavor}
+            onChange={(event) => selectCodeFlavor(event.target.value as CodeFlavor)}
+            title="Markup flavor of the generated code"
+          >
+            {CODE_FLAVORS.map(flavor => (
+              <option key={flavor.id} value={flavor.id}>{flavor.label}</option>
+            ))}
+          </select>
+        )}
+        
+        <select 
+          className="model-select"
+          value={tokenizerModel}
+          onChange={(event) => selectTokenizerModel(event.target.value as TokenizerModel)}
+          title="Tokenizer used for the token counts"
+        >
+          {TOKENIZER_MODELS.map(model => (
+            <option key={model.id} value={model.id}>{model.label}</option>
+          ))}
+        </select>
+        
+        {tokenCount > 0 && (
+          <button 
+            className={`token-count ${showBreakdown ? 'active' : ''}`}
+            onClick={() => setShowBreakdown(!showBreakdown)}
+            title={truncated ? 'Output was cut down to fit the token budget. Show tokens per child node' : 'Show tokens per child node'}
+          >
+            {truncated && tokenBudget
+              ? `${formatTokenCount(tokenCount)} / ${formatTokenCount(tokenBudget)} tokens`
+              : `${formatTokenCount(tokenCount)} tokens`}
+          </button>
+        )}
+        
+        {showProfileEditor && (
+          <ProfileEditor 
+            groups={groups}
+            activeProfile={activeProfile}
+            onChangeGroups={selectGroups}
+            onSaveProfile={saveProfile}
+            onDeleteProfile={deleteProfile}
+          />
         )}
       </div>
       
-      <div className={`json-container ${activeTab === 'pretty' ? 'pretty-view' : 'minified-view'}`}>
+      {progress && (
+        <div className="extraction-progress">
+          <div className="progress-track">
+            <div className="progress-bar" style={{ width: `${Math.round((progress.processed / progress.total) * 100)}%` }} />
+          </div>
+          <span className="progress-label">{progress.processed.toLocaleString()} / {progress.total.toLocaleString()}+ nodes</span>
+          <button onClick={() => postToPlugin({ type: 'cancelExtraction' })}>Cancel</button>
+        </div>
+      )}
+      
+      {previewScale !== null && images.length > 0 && (
+        <div className="image-previews">
+          {images.map(image => (
+            <button 
+              key={image.file}
+              className="image-preview"
+              onClick={() => downloadImage(image)}
+              title={`Download ${image.file}`}
+            >
+              <img src={`data:image/png;base64,${image.base64}`} alt={image.name} />
+              <span>{image.file}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      
+      {showBreakdown && activeTab !== 'tokens' && activeTab !== 'diff' && activeTab !== 'flows' && activeTab !== 'apply' && dataToShow && (
+        <TokenBreakdown data={dataToShow} serialize={serialize} model={tokenizerModel} />
+      )}
+      
+      <PromptBar 
+        templates={promptTemplates}
+        templateId={promptTemplateId}
+        onSelectTemplate={selectPromptTemplate}
+        onChangeTemplates={changePromptTemplates}
+        onError={(message) => postToPlugin({ type: 'notify', message })}
+      />
+      
+      <div className={`json-container ${activeTab === 'minified' ? 'minified-view' : 'pretty-view'}`}>
         <button 
           className="copy-icon-button" 
-          onClick={() => copyToClipboard(activeTab === 'pretty' ? prettyJson : minifiedJson)}
-          title="Copy to clipboard"
+          onClick={() => copyToClipboard(getCopyText())}
+          title={promptTemplateId ? 'Copy prompt with output to clipboard' : 'Copy to clipboard'}
         >
           {copied ? <TickIcon /> : <CopyIcon />}
         </button>
         <div className="json-content">
           <SyntaxHighlighter
-            language="json"
+            language={activeTab === 'tokens' || (activeTab === 'diff' && diffFormat === 'json') || (activeTab === 'flows' && flowFormat === 'json') || (activeTab === 'apply' && !patchResult)
+              ? 'json' 
+              : activeTab === 'diff' || activeTab === 'flows' || activeTab === 'apply' ? 'text' : getSerializer(activeTab).language}
             style={{
               ...vscDarkPlus,
               'code[class*="language-"]': {
@@ -299,7 +971,7 @@ const DefaultView = () => {
               wordBreak: activeTab === 'minified' ? 'break-all' : 'normal',
               whiteSpace: activeTab === 'minified' ? 'pre-wrap' : 'pre',
               width: '100%',
-              overflowX: activeTab === 'pretty' ? 'auto' : 'hidden',
+              overflowX: activeTab === 'minified' ? 'hidden' : 'auto',
               overflowY: 'auto'
             }}
             codeTagProps={{
@@ -316,7 +988,7 @@ const DefaultView = () => {
             wrapLines={activeTab === 'minified'}
             wrapLongLines={activeTab === 'minified'}
           >
-            {activeTab === 'pretty' ? prettyJson : minifiedJson}
+            {output}
           </SyntaxHighlighter>
         </div>
       </div>
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { PROPERTY_GROUPS } from '../constants';
+import type { ExtractProfile, PropertyGroup } from '../types/extraction';
+
+type ProfileEditorProps = {
+  groups: PropertyGroup[];
+  // The profile matching the current groups, if any
+  activeProfile?: ExtractProfile;
+  onChangeGroups: (groups: PropertyGroup[]) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+};
+
+// Pick the property groups to collect, and save the selection as a named profile
+const ProfileEditor = ({ groups, activeProfile, onChangeGroups, onSaveProfile, onDeleteProfile }: ProfileEditorProps) => {
+  const [name, setName] = useState('');
+
+  const toggleGroup = (group: PropertyGroup) => {
+    onChangeGroups(groups.includes(group) ? groups.filter(id => id !== group) : [...groups, group]);
+  };
+
+  const saveProfile = () => {
+    if (!name.trim()) return;
+    onSaveProfile(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="profile-editor">
+      <div className="profile-groups">
+        {PROPERTY_GROUPS.map(group => (
+          <label key={group.id} className="expand-option">
+            <input
+              type="checkbox"
+              checked={groups.includes(group.id)}
+              onChange={() => toggleGroup(group.id)}
+            />
+            {group.label}
+          </label>
+        ))}
+      </div>
+      <div className="profile-actions">
+        <input
+          type="text"
+          placeholder="Profile name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => event.key === 'Enter' && saveProfile()}
+        />
+        <button onClick={saveProfile} disabled={!name.trim()}>Save</button>
+        {activeProfile?.custom && (
+          <button onClick={() => onDeleteProfile(activeProfile.id)} title={`Delete the "${activeProfile.name}" profile`}>
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileEditor;
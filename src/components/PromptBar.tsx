@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  createPromptTemplateId,
+  mergePromptTemplates,
+  parsePromptTemplates,
+  PROMPT_PLACEHOLDERS,
+  PromptTemplate,
+  serializePromptTemplates
+} from '../utils/prompts';
+
+type PromptBarProps = {
+  templates: PromptTemplate[];
+  // Template wrapped around the copied output; null copies the output as is
+  templateId: string | null;
+  onSelectTemplate: (id: string | null) => void;
+  onChangeTemplates: (templates: PromptTemplate[]) => void;
+  onError: (message: string) => void;
+};
+
+// Pick the prompt that wraps the copied output, and edit, import and export prompt templates
+const PromptBar = ({ templates, templateId, onSelectTemplate, onChangeTemplates, onError }: PromptBarProps) => {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [body, setBody] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const activeTemplate = templates.find(template => template.id === templateId);
+
+  // Load the selected template into the editor
+  useEffect(() => {
+    setName(activeTemplate?.name ?? '');
+    setBody(activeTemplate?.body ?? '');
+  }, [activeTemplate]);
+
+  const saveTemplate = () => {
+    if (!name.trim()) return;
+    if (activeTemplate) {
+      onChangeTemplates(templates.map(template => (
+        template.id === activeTemplate.id ? { ...template, name: name.trim(), body } : template
+      )));
+    } else {
+      const template = { id: createPromptTemplateId(), name: name.trim(), body };
+      onChangeTemplates([...templates, template]);
+      onSelectTemplate(template.id);
+    }
+  };
+
+  const deleteTemplate = () => {
+    if (!activeTemplate) return;
+    onChangeTemplates(templates.filter(template => template.id !== activeTemplate.id));
+    onSelectTemplate(null);
+  };
+
+  // Templates are shared as a JSON file through a temporary download link
+  const exportTemplates = () => {
+    const url = URL.createObjectURL(new Blob([serializePromptTemplates(templates)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'prompt-templates.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const importTemplates = async (file: File) => {
+    try {
+      onChangeTemplates(mergePromptTemplates(templates, parsePromptTemplates(await file.text())));
+    } catch (error) {
+      console.error('Error importing prompt templates:', error);
+      onError('Failed to import prompt templates');
+    }
+  };
+
+  return (
+    <div className="prompt-bar">
+      <div className="prompt-row">
+        <label className="prompt-select" title="Prompt the copied output is wrapped in">
+          Prompt
+          <select
+            value={templateId ?? ''}
+            onChange={(event) => onSelectTemplate(event.target.value || null)}
+          >
+            <option value="">None</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        </label>
+        <button className={editing ? 'active' : ''} onClick={() => setEditing(!editing)}>Edit</button>
+        <button onClick={() => fileInput.current?.click()} title="Add templates from a shared file">Import</button>
+        <button onClick={exportTemplates} disabled={templates.length === 0} title="Save all templates to a file to share">Export</button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) importTemplates(file);
+            event.target.value = '';
+          }}
+        />
+      </div>
+      {editing && (
+        <div className="prompt-editor">
+          <input
+            type="text"
+            placeholder="Template name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <textarea
+            rows={5}
+            placeholder="Implement {{selectionName}} in React…"
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+          />
+          <div className="prompt-row">
+            <span className="prompt-placeholders">
+              {PROMPT_PLACEHOLDERS.map(placeholder => (
+                <code key={placeholder.key} title={placeholder.description}>{`{{${placeholder.key}}}`}</code>
+              ))}
+            </span>
+            <button onClick={saveTemplate} disabled={!name.trim()}>{activeTemplate ? 'Save' : 'Add'}</button>
+            {activeTemplate && <button onClick={deleteTemplate}>Delete</button>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptBar;
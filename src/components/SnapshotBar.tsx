@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { SnapshotSummary } from '../types/snapshots';
+
+export type DiffFormat = 'changelog' | 'json';
+
+type SnapshotBarProps = {
+  snapshots: SnapshotSummary[];
+  snapshotId: string | null;
+  diffFormat: DiffFormat;
+  onSelectSnapshot: (id: string | null) => void;
+  onSaveSnapshot: (name: string) => void;
+  onDeleteSnapshot: (id: string) => void;
+  onSelectFormat: (format: DiffFormat) => void;
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+// Save named snapshots of the selection and pick the one to diff against
+const SnapshotBar = ({
+  snapshots,
+  snapshotId,
+  diffFormat,
+  onSelectSnapshot,
+  onSaveSnapshot,
+  onDeleteSnapshot,
+  onSelectFormat
+}: SnapshotBarProps) => {
+  const [name, setName] = useState('');
+
+  const saveSnapshot = () => {
+    if (!name.trim()) return;
+    onSaveSnapshot(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="snapshot-bar">
+      <div className="snapshot-row">
+        <select
+          value={snapshotId ?? ''}
+          onChange={(event) => onSelectSnapshot(event.target.value || null)}
+          title="Snapshot to compare the current selection with"
+        >
+          <option value="">{snapshots.length > 0 ? 'Compare with…' : 'No snapshots yet'}</option>
+          {snapshots.map(snapshot => (
+            <option key={snapshot.id} value={snapshot.id}>
+              {snapshot.name} · {formatDate(snapshot.createdAt)} · {snapshot.nodeCount} nodes
+            </option>
+          ))}
+        </select>
+        {snapshotId && (
+          <button onClick={() => onDeleteSnapshot(snapshotId)} title="Delete this snapshot">Delete</button>
+        )}
+        <select
+          className="diff-format"
+          value={diffFormat}
+          onChange={(event) => onSelectFormat(event.target.value as DiffFormat)}
+          title="Format of the diff"
+        >
+          <option value="changelog">Changelog</option>
+          <option value="json">JSON</option>
+        </select>
+      </div>
+      <div className="snapshot-row">
+        <input
+          type="text"
+          placeholder="Snapshot name, e.g. v1 handoff"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => event.key === 'Enter' && saveSnapshot()}
+        />
+        <button onClick={saveSnapshot} disabled={!name.trim()}>Save snapshot</button>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotBar;
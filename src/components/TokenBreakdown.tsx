@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { countTokens, formatTokenCount, TokenizerModel } from '../utils/tokenizer';
+
+type TokenBreakdownProps = {
+  // The data shown in the output: a single node or a list of selected nodes
+  data: any;
+  serialize: (data: unknown) => string;
+  model: TokenizerModel;
+};
+
+// Multi-selections list their nodes, single nodes their children
+const getItems = (node: any): any[] => (Array.isArray(node) ? node : node?.children ?? []);
+
+// Per-subtree token counts, so it's clear which child node is eating the context window
+const TokenBreakdown = ({ data, serialize, model }: TokenBreakdownProps) => {
+  // Child indices from the shown data down to the node being broken down
+  const [path, setPath] = useState<number[]>([]);
+
+  // Fall back to the top level when the selection changed under an old path
+  const { node, validPath } = useMemo(() => {
+    let current = data;
+    const walked: number[] = [];
+    for (const index of path) {
+      const next = getItems(current)[index];
+      if (!next) break;
+      current = next;
+      walked.push(index);
+    }
+    return { node: current, validPath: walked };
+  }, [data, path]);
+
+  const rows = useMemo(() => getItems(node)
+    .map((item, index) => ({
+      index,
+      name: item?.name ?? `#${index + 1}`,
+      type: item?.type ?? '',
+      tokens: countTokens(serialize(item), model),
+      hasChildren: getItems(item).length > 0
+    }))
+    .sort((a, b) => b.tokens - a.tokens), [node, serialize, model]);
+
+  const total = rows.reduce((sum, row) => sum + row.tokens, 0);
+
+  return (
+    <div className="token-breakdown">
+      {validPath.length > 0 && (
+        <button className="breakdown-row up" onClick={() => setPath(validPath.slice(0, -1))}>
+          <span className="name">↑ {node?.name}</span>
+        </button>
+      )}
+      {rows.map(row => {
+        const share = total > 0 ? Math.round((row.tokens / total) * 100) : 0;
+        return (
+          <button 
+            key={row.index}
+            className="breakdown-row"
+            disabled={!row.hasChildren}
+            onClick={() => setPath([...validPath, row.index])}
+            title={row.hasChildren ? 'Break down this node' : undefined}
+          >
+            <span className="bar" style={{ width: `${share}%` }} />
+            <span className="name">{row.name} <span className="type">{row.type}</span></span>
+            <span className="count">{formatTokenCount(row.tokens)} · {share}%</span>
+          </button>
+        );
+      })}
+      {rows.length === 0 && (
+        <div className="breakdown-empty">No child nodes to break down</div>
+      )}
+    </div>
+  );
+};
+
+export default TokenBreakdown;
@@ -1,9 +1,61 @@
 // Define your constant values here when building your plugin.
 // Delete this file if not needed.
 
+import type { ExtractOptions, ExtractProfile, PropertyGroup } from '../types/extraction';
+
 export const PLUGIN_NAME = 'Figma Plugin';
 
 export const DEFAULT_VALUES = {
   width: 400,
   height: 300,
-};
\ No newline at end of file
+};
+
+export const PROPERTY_GROUPS: { id: PropertyGroup; label: string }[] = [
+  { id: 'geometry', label: 'Position & size' },
+  { id: 'layout', label: 'Auto layout & grids' },
+  { id: 'appearance', label: 'Fills, strokes & effects' },
+  { id: 'typography', label: 'Typography' },
+  { id: 'content', label: 'Text content' },
+  { id: 'components', label: 'Components' },
+  { id: 'variables', label: 'Variables' },
+  { id: 'prototype', label: 'Prototype interactions' },
+];
+
+export const EXTRACT_PROFILES: ExtractProfile[] = [
+  { id: 'everything', name: 'Everything', groups: PROPERTY_GROUPS.map(group => group.id) },
+  { id: 'layout', name: 'Layout only', groups: ['geometry', 'layout'] },
+  { id: 'visual', name: 'Visual styling', groups: ['geometry', 'appearance', 'typography', 'variables'] },
+  { id: 'content', name: 'Content/copy', groups: ['content', 'components'] },
+];
+
+export const DEFAULT_EXTRACT_OPTIONS: ExtractOptions = {
+  maxDepth: null,
+  referencesOnly: false,
+  instanceOverridesOnly: false,
+  groups: EXTRACT_PROFILES[0].groups,
+  omitDefaults: false,
+  templates: false,
+  svgVectors: false,
+  nodeIds: false,
+  annotations: false,
+  previewScale: null,
+  scope: 'selection',
+  filter: { type: null, name: '' },
+};
+
+// Depth used by Dev Mode's code generator until another is chosen; it has to answer within
+// Figma's time limit, so it stops short of a whole screen
+export const DEFAULT_CODEGEN_DEPTH = 2;
+
+// Largest width and height of an icon; vector artwork and shape groups up to this size are
+// exported as SVG and labelled as icons, larger ones are layouts or images
+export const MAX_ICON_SIZE = 64;
+
+// figma.clientStorage key holding the UI preferences object
+export const SETTINGS_STORAGE_KEY = 'settings';
+
+// figma.clientStorage key holding the saved selection snapshots of a file, followed by the file's id
+export const SNAPSHOTS_STORAGE_KEY = 'snapshots';
+
+// Document plugin data key holding the id that keeps a file's snapshots apart from other files'
+export const FILE_ID_PLUGIN_DATA_KEY = 'fileId';
@@ -0,0 +1,105 @@
+// Extracts the content of FigJam and Slides nodes, which the design properties don't cover:
+// sticky and shape text, connectors, code blocks, tables, embeds, sections and slides.
+
+// Connector ends are either attached to a node or left at a free position
+const extractConnectorEndpoint = async (endpoint: ConnectorEndpoint) => {
+  if ('endpointNodeId' in endpoint) {
+    const node = await figma.getNodeByIdAsync(endpoint.endpointNodeId);
+    return {
+      node: node?.name ?? null,
+      type: node?.type ?? null,
+      ...('magnet' in endpoint ? { magnet: endpoint.magnet } : {})
+    };
+  }
+  return { position: endpoint.position };
+};
+
+// Where a slide sits in the deck, counting slides row by row like presentation order
+const extractSlidePosition = (slide: SlideNode) => {
+  let slideNumber = 0;
+  const grid = figma.getSlideGrid();
+  for (let row = 0; row < grid.length; row++) {
+    for (let column = 0; column < grid[row].length; column++) {
+      slideNumber++;
+      if (grid[row][column].id === slide.id) return { slideNumber, row, column };
+    }
+  }
+  return {};
+};
+
+// All text on a slide in layer order, so a deck can be summarized without walking every frame
+const extractSlideText = (slide: SlideNode): string[] => slide
+  .findAll(node => node.type === 'TEXT' || node.type === 'SHAPE_WITH_TEXT' || node.type === 'STICKY')
+  .map(node => ('text' in node ? node.text.characters : (node as TextNode).characters))
+  .filter(text => text.trim() !== '');
+
+export const extractBoardContent = async (node: SceneNode): Promise<any> => {
+  switch (node.type) {
+    case 'STICKY':
+      return {
+        text: node.text.characters,
+        author: node.authorName,
+        authorVisible: node.authorVisible,
+        wide: node.isWideWidth
+      };
+    case 'SHAPE_WITH_TEXT':
+      return {
+        shapeType: node.shapeType,
+        text: node.text.characters
+      };
+    case 'CONNECTOR': {
+      const connectorData: any = {
+        connectorLineType: node.connectorLineType,
+        start: await extractConnectorEndpoint(node.connectorStart),
+        end: await extractConnectorEndpoint(node.connectorEnd),
+        startCap: node.connectorStartStrokeCap,
+        endCap: node.connectorEndStrokeCap
+      };
+      if (node.text.characters) connectorData.label = node.text.characters;
+      return connectorData;
+    }
+    case 'CODE_BLOCK':
+      return {
+        code: node.code,
+        codeLanguage: node.codeLanguage
+      };
+    case 'TABLE': {
+      // Cell text row by row
+      const cells: string[][] = [];
+      for (let row = 0; row < node.numRows; row++) {
+        const rowCells: string[] = [];
+        for (let column = 0; column < node.numColumns; column++) {
+          rowCells.push(node.cellAt(row, column).text.characters);
+        }
+        cells.push(rowCells);
+      }
+      return {
+        numRows: node.numRows,
+        numColumns: node.numColumns,
+        cells
+      };
+    }
+    case 'LINK_UNFURL':
+      return { link: node.linkUnfurlData };
+    case 'EMBED':
+      return { embed: node.embedData };
+    case 'SECTION':
+      return node.sectionContentsHidden ? { sectionContentsHidden: true } : {};
+    case 'SLIDE': {
+      const slideData: any = figma.editorType === 'slides' ? extractSlidePosition(node) : {};
+      if (node.isSkippedSlide) slideData.skipped = true;
+      slideData.text = extractSlideText(node);
+      return slideData;
+    }
+    default:
+      return {};
+  }
+};
+
+// Name of the nearest section a node sits in, for nodes selected inside a section
+export const findSection = (node: SceneNode): string | null => {
+  for (let parent = node.parent; parent && parent.type !== 'PAGE'; parent = parent.parent) {
+    if (parent.type === 'SECTION') return parent.name;
+  }
+  return null;
+};
@@ -0,0 +1,132 @@
+// Cache of extracted node properties keyed by node id, so unchanged nodes aren't extracted
+// again on every selection change. Entries are invalidated from nodechange and stylechange events.
+
+import type { PreviewImage } from '../types/messages';
+
+// Start over rather than keep growing when a file's worth of nodes has been cached
+const MAX_CACHED_NODES = 20000;
+
+export const createNodeCache = () => {
+  const entries = new Map<string, any>();
+  // Parent and children of every cached node, kept so ancestors can be found after a node is
+  // deleted and descendants when a node changes
+  const parents = new Map<string, string>();
+  const children = new Map<string, Set<string>>();
+  // Nodes whose data names another node, such as a prototype destination, keyed by that node
+  const dependents = new Map<string, Set<string>>();
+  // Nodes extracted without caching their data, such as instances reduced to their overrides
+  const tracked = new Set<string>();
+  // Rendered previews of root nodes, which depend on everything inside them
+  const previews = new Map<string, PreviewImage>();
+  let optionsKey = '';
+
+  const clear = () => {
+    entries.clear();
+    parents.clear();
+    children.clear();
+    dependents.clear();
+    tracked.clear();
+    previews.clear();
+  };
+
+  const addTo = (sets: Map<string, Set<string>>, key: string, value: string) => {
+    const set = sets.get(key) ?? new Set<string>();
+    set.add(value);
+    sets.set(key, set);
+  };
+
+  const rememberParent = (node: SceneNode) => {
+    if (!node.parent) return;
+    parents.set(node.id, node.parent.id);
+    addTo(children, node.parent.id, node.id);
+  };
+
+  // Drop a single node and the nodes naming it; returns whether anything was dropped
+  const drop = (id: string): boolean => {
+    let dropped = entries.delete(id);
+    if (previews.delete(id)) dropped = true;
+    if (tracked.delete(id)) dropped = true;
+    for (const dependent of dependents.get(id) ?? []) {
+      if (entries.delete(dependent)) dropped = true;
+    }
+    dependents.delete(id);
+    return dropped;
+  };
+
+  const dropWithAncestors = (id: string): boolean => {
+    let dropped = false;
+    let current: string | undefined = id;
+    while (current !== undefined) {
+      if (drop(current)) dropped = true;
+      const parent = parents.get(current);
+      parents.delete(current);
+      if (parent !== undefined) children.get(parent)?.delete(current);
+      current = parent;
+    }
+    return dropped;
+  };
+
+  const dropDescendants = (id: string): boolean => {
+    let dropped = false;
+    for (const child of children.get(id) ?? []) {
+      if (drop(child)) dropped = true;
+      if (dropDescendants(child)) dropped = true;
+      parents.delete(child);
+    }
+    children.delete(id);
+    return dropped;
+  };
+
+  return {
+    // Drop every entry when the options that shape node data change
+    useOptions: (key: string) => {
+      if (key === optionsKey) return;
+      clear();
+      optionsKey = key;
+    },
+
+    get: (id: string): any => entries.get(id),
+
+    // Store a node's data, along with the ids of other nodes it names
+    set: (node: SceneNode, data: any, dependencies: readonly string[] = []) => {
+      if (entries.size >= MAX_CACHED_NODES) clear();
+      entries.set(node.id, data);
+      rememberParent(node);
+      for (const dependency of dependencies) addTo(dependents, dependency, node.id);
+    },
+
+    // Remember a node that was extracted without caching its data, so edits to it still count
+    track: (node: SceneNode) => {
+      tracked.add(node.id);
+      rememberParent(node);
+    },
+
+    getPreview: (id: string, scale: number): PreviewImage | undefined => {
+      const image = previews.get(id);
+      return image?.scale === scale ? image : undefined;
+    },
+
+    setPreview: (id: string, image: PreviewImage) => {
+      previews.set(id, image);
+    },
+
+    // Drop the changed nodes with their descendants, and their ancestors, whose icons and
+    // summaries depend on them. Ancestors the cache may not know yet, such as those of a newly
+    // created node, can be passed separately. Returns whether any of them had been extracted.
+    invalidate: (ids: Iterable<string>, ancestorIds: Iterable<string> = []): boolean => {
+      let affected = false;
+      for (const id of ids) {
+        if (dropDescendants(id)) affected = true;
+        if (dropWithAncestors(id)) affected = true;
+      }
+      for (const id of ancestorIds) {
+        if (dropWithAncestors(id)) affected = true;
+      }
+      return affected;
+    },
+
+    clear
+  };
+};
+
+export type NodeCache = ReturnType<typeof createNodeCache>;
@@ -0,0 +1,80 @@
+// Describes how component, component set and instance nodes relate to each other,
+// so instances can be exported as short references to their main component.
+
+// Component property names carry a "#id" suffix to keep them unique; the model only needs the label
+const cleanPropertyName = (propertyName: string) => propertyName.replace(/#[^#]*$/, '');
+
+// Resolve an instance to its main component name and key, plus the component set it belongs to
+export const extractComponentReference = async (instance: InstanceNode): Promise<any> => {
+  const mainComponent = await instance.getMainComponentAsync();
+  if (!mainComponent) return null;
+
+  const reference: any = {
+    name: mainComponent.name,
+    key: mainComponent.key
+  };
+  if (mainComponent.remote) reference.remote = true;
+
+  const componentSet = mainComponent.parent?.type === 'COMPONENT_SET' ? mainComponent.parent : null;
+  if (componentSet) {
+    reference.componentSet = {
+      name: componentSet.name,
+      key: componentSet.key
+    };
+  }
+
+  // Variants usually keep their documentation on the component set
+  const description = mainComponent.description || componentSet?.description;
+  if (description) reference.description = description;
+
+  return reference;
+};
+
+// Collect the boolean, text and instance-swap values set on an instance
+export const extractComponentProperties = async (instance: InstanceNode): Promise<any> => {
+  const properties: any = {};
+
+  for (const [propertyName, property] of Object.entries(instance.componentProperties)) {
+    // Variant values are reported separately through variantProperties
+    if (property.type === 'VARIANT') continue;
+
+    if (property.type === 'INSTANCE_SWAP' && typeof property.value === 'string') {
+      const swapped = await figma.getNodeByIdAsync(property.value);
+      properties[cleanPropertyName(propertyName)] = swapped ? swapped.name : property.value;
+    } else {
+      properties[cleanPropertyName(propertyName)] = property.value;
+    }
+  }
+
+  return Object.keys(properties).length > 0 ? properties : null;
+};
+
+// Describe the properties a component or component set exposes to its instances
+export const extractComponentDefinitions = (node: ComponentNode | ComponentSetNode): any => {
+  const definitions: any = {};
+
+  for (const [propertyName, definition] of Object.entries(node.componentPropertyDefinitions)) {
+    const definitionData: any = {
+      type: definition.type,
+      defaultValue: definition.defaultValue
+    };
+    if (definition.variantOptions) definitionData.variantOptions = definition.variantOptions;
+    definitions[cleanPropertyName(propertyName)] = definitionData;
+  }
+
+  return Object.keys(definitions).length > 0 ? definitions : null;
+};
+
+// List the nodes inside an instance whose properties differ from the main component
+export const getInstanceOverrides = async (instance: InstanceNode): Promise<{ node: SceneNode; fields: NodeChangeProperty[] }[]> => {
+  const overrides: { node: SceneNode; fields: NodeChangeProperty[] }[] = [];
+
+  for (const override of instance.overrides) {
+    const node = await figma.getNodeByIdAsync(override.id);
+    if (node && node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+      overrides.push({ node, fields: override.overriddenFields });
+    }
+  }
+
+  return overrides;
+};
@@ -0,0 +1,117 @@
+// Applies a patch of edits to the live document. Every operation is first checked against the
+// node it targets, loading fonts and variables on the way; the ones that pass are then applied
+// together as a single undo step, and the rest are reported back with the reason they failed.
+
+import type { PatchFailure, PatchOperation, PatchResult } from '../types/patch';
+import { LAYOUT_PATCH_KEYS, parseHexColor } from '../utils/patch';
+
+class PatchError extends Error {}
+
+// Color variables by id or, as the model usually writes them, by name
+const createVariableFinder = () => {
+  let localVariables: Promise<Variable[]> | null = null;
+  return async (reference: string): Promise<Variable> => {
+    const variable = reference.startsWith('VariableID:')
+      ? await figma.variables.getVariableByIdAsync(reference)
+      : (await (localVariables ??= figma.variables.getLocalVariablesAsync('COLOR'))).find(item => item.name === reference);
+    if (!variable) throw new PatchError(`Variable "${reference}" not found`);
+    if (variable.resolvedType !== 'COLOR') throw new PatchError(`Variable "${reference}" is not a color`);
+    return variable;
+  };
+};
+
+// Text can only change once every font it uses is loaded
+const loadFonts = async (node: TextNode) => {
+  if (node.hasMissingFont) throw new PatchError('Text uses a font that is not available');
+  // Empty text has no ranges to read, but then also a single font of its own
+  const fonts = node.characters.length > 0
+    ? node.getRangeAllFontNames(0, node.characters.length)
+    : node.fontName === figma.mixed ? [] : [node.fontName];
+  await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+};
+
+// Check an operation against its node and return the edit to make, or throw why it doesn't fit
+const prepareOperation = async (
+  operation: PatchOperation,
+  node: SceneNode,
+  findVariable: (reference: string) => Promise<Variable>
+): Promise<() => void> => {
+  switch (operation.op) {
+    case 'rename':
+      return () => { node.name = operation.name; };
+    case 'setText': {
+      if (node.type !== 'TEXT') throw new PatchError(`${node.type} node has no text`);
+      await loadFonts(node);
+      return () => { node.characters = operation.characters; };
+    }
+    case 'setFill': {
+      if (!('fills' in node)) throw new PatchError(`${node.type} node has no fills`);
+      let paint: SolidPaint;
+      if ('variable' in operation) {
+        const variable = await findVariable(operation.variable);
+        paint = figma.variables.setBoundVariableForPaint({ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }, 'color', variable);
+      } else {
+        // Patches are checked in the UI too, but the sandbox doesn't rely on it
+        const color = typeof operation.color === 'string' ? parseHexColor(operation.color) : null;
+        if (!color) throw new PatchError(`"${operation.color}" is not a hex color`);
+        const { r, g, b, a } = color;
+        paint = { type: 'SOLID', color: { r, g, b }, opacity: a };
+      }
+      return () => { node.fills = [paint]; };
+    }
+    case 'setLayout': {
+      // Padding and spacing only exist on auto layout, and the gap between rows only once it wraps
+      if (!('layoutMode' in node) || node.layoutMode === 'NONE') throw new PatchError(`${node.type} node has no auto layout`);
+      const values = LAYOUT_PATCH_KEYS.flatMap(key => {
+        const value = operation[key];
+        return value === undefined ? [] : [[key, value] as const];
+      });
+      for (const [key, value] of values) {
+        if (key === 'counterAxisSpacing' && node.layoutWrap !== 'WRAP') throw new PatchError(`${key} needs auto layout that wraps`);
+        if (key !== 'itemSpacing' && value < 0) throw new PatchError(`${key} can't be negative`);
+      }
+      return () => {
+        for (const [key, value] of values) node[key] = value;
+      };
+    }
+    case 'setVisible':
+      return () => { node.visible = operation.visible; };
+  }
+};
+
+export const applyPatch = async (operations: PatchOperation[]): Promise<PatchResult> => {
+  const findVariable = createVariableFinder();
+  const failures: PatchFailure[] = [];
+  const edits: { index: number; apply: () => void }[] = [];
+
+  const fail = (index: number, error: unknown) => {
+    const { op, id } = operations[index];
+    failures.push({ index, op, id, error: error instanceof Error ? error.message : String(error) });
+  };
+
+  for (const [index, operation] of operations.entries()) {
+    try {
+      const node = await figma.getNodeByIdAsync(operation.id);
+      if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') throw new PatchError(`Node ${operation.id} not found`);
+      edits.push({ index, apply: await prepareOperation(operation, node, findVariable) });
+    } catch (error) {
+      fail(index, error);
+    }
+  }
+
+  // Earlier plugin edits are committed first, so undo takes back exactly this patch
+  figma.commitUndo();
+  let applied = 0;
+  for (const { index, apply } of edits) {
+    try {
+      apply();
+      applied++;
+    } catch (error) {
+      fail(index, error);
+    }
+  }
+  figma.commitUndo();
+
+  failures.sort((a, b) => a.index - b.index);
+  return { applied, failures };
+};
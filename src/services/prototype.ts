@@ -0,0 +1,169 @@
+// Reads prototype interactions: the triggers and actions set on each node, and the flow
+// graph of a page, with screens as nodes and navigation between them as edges.
+
+import type { FlowEdge, FlowGraph } from '../types/prototype';
+import { collectFrames } from './scope';
+
+const extractTrigger = (trigger: Trigger) => {
+  const triggerData: any = { type: trigger.type };
+  if ('timeout' in trigger) triggerData.timeout = trigger.timeout;
+  if ('delay' in trigger && trigger.delay > 0) triggerData.delay = trigger.delay;
+  if ('keyCodes' in trigger) {
+    triggerData.device = trigger.device;
+    triggerData.keyCodes = trigger.keyCodes;
+  }
+  return triggerData;
+};
+
+// Durations are in seconds, as in Figma's prototype panel
+const extractTransition = (transition: Transition | null) => {
+  if (!transition) return null;
+  const transitionData: any = {
+    type: transition.type,
+    duration: transition.duration,
+    easing: transition.easing.type
+  };
+  if ('direction' in transition) {
+    transitionData.direction = transition.direction;
+    if (transition.matchLayers) transitionData.matchLayers = true;
+  }
+  return transitionData;
+};
+
+// Overlays carry their own position and background settings on the destination frame
+const extractOverlaySettings = (destination: BaseNode) => {
+  if (!('overlayPositionType' in destination)) return null;
+  return {
+    position: destination.overlayPositionType,
+    background: destination.overlayBackground,
+    backgroundInteraction: destination.overlayBackgroundInteraction
+  };
+};
+
+const extractAction = async (action: Action): Promise<any> => {
+  switch (action.type) {
+    case 'NODE': {
+      const destination = action.destinationId ? await figma.getNodeByIdAsync(action.destinationId) : null;
+      const actionData: any = {
+        type: action.navigation,
+        destination: destination ? { id: destination.id, name: destination.name } : null,
+        transition: extractTransition(action.transition)
+      };
+      if (action.navigation === 'OVERLAY' && destination) {
+        actionData.overlay = extractOverlaySettings(destination);
+        if (actionData.overlay && action.overlayRelativePosition) actionData.overlay.offset = action.overlayRelativePosition;
+      }
+      if (action.preserveScrollPosition) actionData.preserveScrollPosition = true;
+      return actionData;
+    }
+    case 'URL':
+      return { type: 'URL', url: action.url, openInNewTab: action.openInNewTab ?? false };
+    case 'SET_VARIABLE': {
+      const variable = action.variableId ? await figma.variables.getVariableByIdAsync(action.variableId) : null;
+      return { type: 'SET_VARIABLE', variable: variable?.name ?? null, value: action.variableValue?.value };
+    }
+    case 'SET_VARIABLE_MODE':
+      return { type: 'SET_VARIABLE_MODE', collectionId: action.variableCollectionId, modeId: action.variableModeId };
+    case 'CONDITIONAL': {
+      const blocks = [];
+      for (const block of action.conditionalBlocks) {
+        blocks.push({
+          ...(block.condition ? { condition: block.condition } : {}),
+          actions: await Promise.all(block.actions.map(extractAction))
+        });
+      }
+      return { type: 'CONDITIONAL', blocks };
+    }
+    case 'UPDATE_MEDIA_RUNTIME':
+      return { type: 'UPDATE_MEDIA_RUNTIME', mediaAction: action.mediaAction };
+    default:
+      // BACK and CLOSE
+      return { type: action.type };
+  }
+};
+
+// Reactions of a node as trigger plus actions; the deprecated single action is read as a list of one
+export const extractReactions = async (reactions: readonly Reaction[]): Promise<any[]> => {
+  const reactionsData: any[] = [];
+  for (const reaction of reactions) {
+    if (!reaction.trigger) continue;
+    const actions = reaction.actions ?? (reaction.action ? [reaction.action] : []);
+    reactionsData.push({
+      trigger: extractTrigger(reaction.trigger),
+      actions: await Promise.all(actions.map(extractAction))
+    });
+  }
+  return reactionsData;
+};
+
+const collectActionDestinations = (actionsData: any[]): string[] => actionsData.flatMap(action => [
+  ...(action.destination ? [action.destination.id] : []),
+  ...(action.blocks ?? []).flatMap((block: any) => collectActionDestinations(block.actions))
+]);
+
+// Ids of the nodes extracted reactions lead to, whose names they copy
+export const collectDestinationIds = (reactionsData: any[]): string[] => (
+  reactionsData.flatMap(reaction => collectActionDestinations(reaction.actions))
+);
+
+// Node actions anywhere in a reaction, including inside conditionals
+const collectNodeActions = (actions: readonly Action[]): Extract<Action, { type: 'NODE' }>[] => actions.flatMap(action => {
+  if (action.type === 'NODE') return [action];
+  if (action.type === 'CONDITIONAL') return action.conditionalBlocks.flatMap(block => collectNodeActions(block.actions));
+  return [];
+});
+
+// Screens of the current page and the navigation between them
+export const buildFlowGraph = async (): Promise<FlowGraph> => {
+  const page = figma.currentPage;
+  await page.loadAsync();
+
+  const screens = collectFrames(page.children);
+  const screenIds = new Set(screens.map(screen => screen.id));
+
+  // Destinations inside a screen, such as scroll targets, belong to that screen
+  const findScreenId = async (nodeId: string): Promise<string | null> => {
+    for (let node = await figma.getNodeByIdAsync(nodeId); node; node = node.parent) {
+      if (screenIds.has(node.id)) return node.id;
+    }
+    return null;
+  };
+
+  const edges: FlowEdge[] = [];
+  for (const screen of screens) {
+    const sources = 'findAll' in screen ? [screen, ...screen.findAll(node => 'reactions' in node && node.reactions.length > 0)] : [screen];
+    for (const source of sources) {
+      if (!('reactions' in source)) continue;
+      for (const reaction of source.reactions) {
+        if (!reaction.trigger) continue;
+        const actions = collectNodeActions(reaction.actions ?? (reaction.action ? [reaction.action] : []));
+        for (const action of actions) {
+          const to = action.destinationId ? await findScreenId(action.destinationId) : null;
+          if (!to) continue;
+          edges.push({
+            from: screen.id,
+            to,
+            source: { id: source.id, name: source.name },
+            trigger: reaction.trigger.type,
+            navigation: action.navigation,
+            transition: extractTransition(action.transition)
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    page: { id: page.id, name: page.name },
+    flows: page.flowStartingPoints
+      .filter(flow => screenIds.has(flow.nodeId))
+      .map(flow => ({ name: flow.name, screenId: flow.nodeId })),
+    screens: screens.map(screen => ({
+      id: screen.id,
+      name: screen.name,
+      width: Math.round(screen.width),
+      height: Math.round(screen.height)
+    })),
+    edges
+  };
+};
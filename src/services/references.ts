@@ -0,0 +1,82 @@
+// Resolves variable bindings and shared style ids into the names used by design tokens.
+// Lookups are cached per extraction run because the same token is usually bound many times.
+
+export type VariableReference = {
+  variable: string;
+  collection?: string;
+  mode?: string;
+  resolvedType?: VariableResolvedDataType;
+  value?: VariableValue;
+};
+
+export const createReferenceResolver = () => {
+  const variables = new Map<string, Promise<Variable | null>>();
+  const collections = new Map<string, Promise<VariableCollection | null>>();
+  const styles = new Map<string, Promise<BaseStyle | null>>();
+
+  const getVariable = (id: string) => {
+    if (!variables.has(id)) {
+      variables.set(id, figma.variables.getVariableByIdAsync(id).catch(() => null));
+    }
+    return variables.get(id) as Promise<Variable | null>;
+  };
+
+  const getCollection = (id: string) => {
+    if (!collections.has(id)) {
+      collections.set(id, figma.variables.getVariableCollectionByIdAsync(id).catch(() => null));
+    }
+    return collections.get(id) as Promise<VariableCollection | null>;
+  };
+
+  const getStyle = (id: string) => {
+    if (!styles.has(id)) {
+      styles.set(id, figma.getStyleByIdAsync(id).catch(() => null));
+    }
+    return styles.get(id) as Promise<BaseStyle | null>;
+  };
+
+  // Resolve a variable alias into its name, collection and the mode active on the consumer
+  const resolveVariable = async (
+    alias: VariableAlias,
+    consumer: SceneNode,
+    includeValue: boolean
+  ): Promise<VariableReference | null> => {
+    const variable = await getVariable(alias.id);
+    if (!variable) return null;
+
+    const reference: VariableReference = {
+      variable: variable.name
+    };
+
+    const collection = await getCollection(variable.variableCollectionId);
+    if (collection) {
+      reference.collection = collection.name;
+      const modeId = consumer.resolvedVariableModes[collection.id] ?? collection.defaultModeId;
+      const mode = collection.modes.find(m => m.modeId === modeId);
+      if (mode) reference.mode = mode.name;
+    }
+
+    if (includeValue) {
+      try {
+        const resolved = variable.resolveForConsumer(consumer);
+        reference.resolvedType = resolved.resolvedType;
+        reference.value = resolved.value;
+      } catch {
+        // Remote variables that are no longer available can't be resolved; keep the name only
+      }
+    }
+
+    return reference;
+  };
+
+  // Resolve a shared style id into the style's name
+  const resolveStyleName = async (styleId: string | PluginAPI['mixed']): Promise<string | null> => {
+    if (typeof styleId !== 'string' || styleId === '') return null;
+    const style = await getStyle(styleId);
+    return style ? style.name : null;
+  };
+
+  return { resolveVariable, resolveStyleName };
+};
+
+export type ReferenceResolver = ReturnType<typeof createReferenceResolver>;
@@ -0,0 +1,56 @@
+// Collects the nodes of a page or document scope and the table of contents that leads the
+// export. With dynamic page loading, pages other than the current one are loaded first.
+
+import type { ExtractScope, NodeFilter, PageContents } from '../types/extraction';
+
+// Node types that count as frames; sections are looked into rather than exported whole
+const FRAME_TYPES: NodeType[] = ['FRAME', 'COMPONENT', 'COMPONENT_SET'];
+
+// Screen/* -> /^Screen\/.*$/, matching the whole name
+const globToRegExp = (pattern: string) => new RegExp(
+  `^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`
+);
+
+export const matchesFilter = (node: SceneNode, filter: NodeFilter): boolean => {
+  if (filter.type && node.type !== filter.type) return false;
+  return !filter.name || globToRegExp(filter.name).test(node.name);
+};
+
+// Top-level nodes of the given types, including those placed inside top-level sections
+const collectTopLevel = (nodes: readonly SceneNode[], types: NodeType[]): SceneNode[] => nodes.flatMap(node => {
+  if (types.includes(node.type)) return [node];
+  return node.type === 'SECTION' ? collectTopLevel(node.children, types) : [];
+});
+
+// Top-level frames of a page, including those placed inside top-level sections
+export const collectFrames = (nodes: readonly SceneNode[]): SceneNode[] => collectTopLevel(nodes, FRAME_TYPES);
+
+const listPageContents = (page: PageNode, nodes: SceneNode[]): PageContents => ({
+  id: page.id,
+  name: page.name,
+  frames: nodes.map(node => ({
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    width: Math.round(node.width),
+    height: Math.round(node.height)
+  }))
+});
+
+// Nodes to export for a scope other than the selection, page by page
+export const collectScope = async (scope: Exclude<ExtractScope, 'selection'>, filter: NodeFilter) => {
+  const pages = scope === 'document' ? figma.root.children : [figma.currentPage];
+  const roots: SceneNode[] = [];
+  const contents: PageContents[] = [];
+
+  for (const page of pages) {
+    await page.loadAsync();
+    // Filtering by a type other than frames collects the top-level nodes of that type instead
+    const nodes = (scope === 'page' ? [...page.children] : collectTopLevel(page.children, filter.type ? [filter.type] : FRAME_TYPES))
+      .filter(node => matchesFilter(node, filter));
+    roots.push(...nodes);
+    contents.push(listPageContents(page, nodes));
+  }
+
+  return { roots, contents };
+};
@@ -0,0 +1,67 @@
+// Stores named snapshots of extracted selections in clientStorage, so a later revision of the
+// design can be diffed against them. Snapshots are kept per user, under a key of their own for
+// each file, found by an id stored in the file so that renaming it doesn't lose them.
+
+import { FILE_ID_PLUGIN_DATA_KEY, SNAPSHOTS_STORAGE_KEY } from '../constants';
+import type { Snapshot, SnapshotNode, SnapshotSummary } from '../types/snapshots';
+
+// Flatten extracted data into snapshot nodes keyed by id. Extracted children line up
+// with the scene node's children, except where they were summarized or left out.
+export const collectSnapshotNodes = (roots: readonly SceneNode[], data: any[]): Record<string, SnapshotNode> => {
+  const nodes: Record<string, SnapshotNode> = {};
+
+  const visit = (node: SceneNode, nodeData: any, parentId: string | null, index: number, parentPath: string) => {
+    const { children, childrenCount, truncated, summary, ...properties } = nodeData;
+    const path = parentPath ? `${parentPath} / ${node.name}` : node.name;
+    nodes[node.id] = { id: node.id, parentId, index, path, properties };
+
+    if ('children' in node && Array.isArray(children) && children.length === node.children.length) {
+      node.children.forEach((child, childIndex) => visit(child, children[childIndex], node.id, childIndex, path));
+    }
+  };
+
+  roots.forEach((root, index) => visit(root, data[index], null, index, ''));
+  return nodes;
+};
+
+// The file's id, or null until a snapshot is first saved in it
+const readFileId = (): string | null => figma.root.getPluginData(FILE_ID_PLUGIN_DATA_KEY) || null;
+
+// Only saving writes to the document, so browsing snapshots leaves the file untouched
+const createFileId = (): string => {
+  const fileId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  figma.root.setPluginData(FILE_ID_PLUGIN_DATA_KEY, fileId);
+  return fileId;
+};
+
+const getStorageKey = (fileId: string) => `${SNAPSHOTS_STORAGE_KEY}:${fileId}`;
+
+const loadFileSnapshots = async (fileId: string | null): Promise<Snapshot[]> => {
+  if (!fileId) return [];
+  const snapshots = await figma.clientStorage.getAsync(getStorageKey(fileId));
+  return Array.isArray(snapshots) ? snapshots : [];
+};
+
+// Snapshots taken in the current file, newest first
+export const loadSnapshots = async (): Promise<Snapshot[]> => (await loadFileSnapshots(readFileId()))
+  .sort((a, b) => b.createdAt - a.createdAt);
+
+export const summarizeSnapshot = (snapshot: Snapshot): SnapshotSummary => ({
+  id: snapshot.id,
+  name: snapshot.name,
+  createdAt: snapshot.createdAt,
+  nodeCount: Object.keys(snapshot.nodes).length
+});
+
+export const saveSnapshot = async (snapshot: Snapshot) => {
+  const fileId = readFileId() ?? createFileId();
+  const snapshots = await loadFileSnapshots(fileId);
+  await figma.clientStorage.setAsync(getStorageKey(fileId), [...snapshots, snapshot]);
+};
+
+export const deleteSnapshot = async (id: string) => {
+  const fileId = readFileId();
+  if (!fileId) return;
+  const snapshots = await loadFileSnapshots(fileId);
+  await figma.clientStorage.setAsync(getStorageKey(fileId), snapshots.filter(snapshot => snapshot.id !== id));
+};
@@ -0,0 +1,207 @@
+// Exports local variables and styles as Design Tokens Community Group (DTCG) JSON.
+// Variables are grouped by collection, with every mode kept under the com.figma extension,
+// and aliases written as "{group.token}" references so the token graph survives the export.
+
+const FIGMA_EXTENSION = 'com.figma';
+
+// Font style names mapped to the numeric weights DTCG typography tokens expect
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  regular: 400,
+  normal: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900
+};
+
+// Token and group names can't contain the characters DTCG uses for references
+const toTokenSegment = (name: string) => name.trim().replace(/[{}.]/g, '-').replace(/^\$/, '');
+
+const toPath = (group: string, name: string) => [toTokenSegment(group), ...name.split('/').map(toTokenSegment)];
+
+const toReference = (path: string[]) => `{${path.join('.')}}`;
+
+const toHex = (color: RGB | RGBA) => {
+  const channel = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+  const alpha = 'a' in color && color.a < 1 ? channel(color.a) : '';
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}${alpha}`;
+};
+
+const toFontWeight = (style: string) => {
+  const key = style.toLowerCase().replace(/[\s-]|italic/g, '');
+  return FONT_WEIGHTS[key] ?? 400;
+};
+
+// Place a token at its path inside the nested token document
+const setToken = (document: any, path: string[], token: any) => {
+  let group = document;
+  for (const segment of path.slice(0, -1)) {
+    group[segment] = group[segment] ?? {};
+    group = group[segment];
+  }
+  group[path[path.length - 1]] = token;
+};
+
+// Figma variable types and scopes mapped onto DTCG token types
+const toTokenType = (variable: Variable): string => {
+  const scopes = variable.scopes;
+  switch (variable.resolvedType) {
+    case 'COLOR':
+      return 'color';
+    case 'FLOAT':
+      if (scopes.length === 1 && scopes[0] === 'FONT_WEIGHT') return 'fontWeight';
+      if (scopes.length > 0 && scopes.every(scope => scope === 'OPACITY')) return 'number';
+      if (scopes.some(scope => ['CORNER_RADIUS', 'WIDTH_HEIGHT', 'GAP', 'STROKE_FLOAT', 'FONT_SIZE', 'LINE_HEIGHT', 'LETTER_SPACING', 'PARAGRAPH_SPACING', 'PARAGRAPH_INDENT'].includes(scope))) {
+        return 'dimension';
+      }
+      return 'number';
+    case 'STRING':
+      return scopes.length === 1 && scopes[0] === 'FONT_FAMILY' ? 'fontFamily' : 'string';
+    case 'BOOLEAN':
+      return 'boolean';
+  }
+};
+
+export const exportDesignTokens = async (): Promise<any> => {
+  const document: any = {};
+
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const variables = await figma.variables.getLocalVariablesAsync();
+  const collectionsById = new Map(collections.map(collection => [collection.id, collection]));
+
+  // Token paths of every local variable, so aliases can be written as references
+  const variablePaths = new Map<string, string[]>();
+  for (const variable of variables) {
+    const collection = collectionsById.get(variable.variableCollectionId);
+    if (collection) variablePaths.set(variable.id, toPath(collection.name, variable.name));
+  }
+
+  // Aliases to variables outside this file are written with their resolved value instead
+  const formatValue = async (value: VariableValue, type: string): Promise<any> => {
+    if (typeof value === 'object' && 'type' in value) {
+      const path = variablePaths.get(value.id);
+      if (path) return toReference(path);
+      const target = await figma.variables.getVariableByIdAsync(value.id);
+      const collection = target ? await figma.variables.getVariableCollectionByIdAsync(target.variableCollectionId) : null;
+      if (target && collection) return formatValue(target.valuesByMode[collection.defaultModeId], type);
+      return null;
+    }
+    if (typeof value === 'object') return toHex(value);
+    if (type === 'dimension' && typeof value === 'number') return `${value}px`;
+    return value;
+  };
+
+  for (const variable of variables) {
+    const collection = collectionsById.get(variable.variableCollectionId);
+    const path = variablePaths.get(variable.id);
+    if (!collection || !path) continue;
+
+    const type = toTokenType(variable);
+    const token: any = {
+      $type: type,
+      $value: await formatValue(variable.valuesByMode[collection.defaultModeId], type)
+    };
+    if (variable.description) token.$description = variable.description;
+
+    // Every mode is kept so themes like Light/Dark stay in one document
+    if (collection.modes.length > 1) {
+      const modes: any = {};
+      for (const mode of collection.modes) {
+        modes[mode.name] = await formatValue(variable.valuesByMode[mode.modeId], type);
+      }
+      token.$extensions = { [FIGMA_EXTENSION]: { modes } };
+    }
+
+    setToken(document, path, token);
+  }
+
+  // Style properties bound to variables are written as references to those variables
+  const referenceOr = (alias: VariableAlias | undefined, fallback: any) => {
+    const path = alias ? variablePaths.get(alias.id) : undefined;
+    return path ? toReference(path) : fallback;
+  };
+
+  for (const style of await figma.getLocalPaintStylesAsync()) {
+    const paint = style.paints.find(candidate => candidate.visible !== false);
+    if (!paint) continue;
+
+    let token: any = null;
+    if (paint.type === 'SOLID') {
+      token = {
+        $type: 'color',
+        $value: referenceOr(paint.boundVariables?.color, toHex({ ...paint.color, a: paint.opacity ?? 1 }))
+      };
+    } else if (paint.type !== 'IMAGE' && paint.type !== 'VIDEO' && paint.type !== 'PATTERN') {
+      token = {
+        $type: 'gradient',
+        $value: paint.gradientStops.map(stop => ({
+          color: referenceOr(stop.boundVariables?.color, toHex(stop.color)),
+          position: stop.position
+        }))
+      };
+    }
+    if (!token) continue;
+    if (style.description) token.$description = style.description;
+    setToken(document, toPath('styles', `color/${style.name}`), token);
+  }
+
+  for (const style of await figma.getLocalTextStylesAsync()) {
+    const bound = style.boundVariables ?? {};
+    const lineHeight = style.lineHeight.unit === 'AUTO'
+      ? 'normal'
+      : style.lineHeight.unit === 'PERCENT' ? style.lineHeight.value / 100 : `${style.lineHeight.value}px`;
+    const letterSpacing = style.letterSpacing.unit === 'PERCENT'
+      ? `${style.letterSpacing.value / 100}em`
+      : `${style.letterSpacing.value}px`;
+
+    const token: any = {
+      $type: 'typography',
+      $value: {
+        fontFamily: referenceOr(bound.fontFamily, style.fontName.family),
+        fontSize: referenceOr(bound.fontSize, `${style.fontSize}px`),
+        fontWeight: referenceOr(bound.fontWeight, toFontWeight(style.fontName.style)),
+        letterSpacing: referenceOr(bound.letterSpacing, letterSpacing),
+        lineHeight: referenceOr(bound.lineHeight, lineHeight)
+      }
+    };
+    if (style.description) token.$description = style.description;
+    setToken(document, toPath('styles', `typography/${style.name}`), token);
+  }
+
+  for (const style of await figma.getLocalEffectStylesAsync()) {
+    const shadows = style.effects
+      .filter(effect => (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') && effect.visible)
+      .map(effect => {
+        const shadow = effect as DropShadowEffect | InnerShadowEffect;
+        const bound = shadow.boundVariables ?? {};
+        return {
+          color: referenceOr(bound.color, toHex(shadow.color)),
+          offsetX: referenceOr(bound.offsetX, `${shadow.offset.x}px`),
+          offsetY: referenceOr(bound.offsetY, `${shadow.offset.y}px`),
+          blur: referenceOr(bound.radius, `${shadow.radius}px`),
+          spread: referenceOr(bound.spread, `${shadow.spread ?? 0}px`),
+          inset: shadow.type === 'INNER_SHADOW'
+        };
+      });
+    if (shadows.length === 0) continue;
+
+    const token: any = {
+      $type: 'shadow',
+      $value: shadows.length === 1 ? shadows[0] : shadows
+    };
+    if (style.description) token.$description = style.description;
+    setToken(document, toPath('styles', `shadow/${style.name}`), token);
+  }
+
+  return document;
+};
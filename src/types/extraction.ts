@@ -0,0 +1,67 @@
+// Options that control what extractNodeData collects for each node
+
+// Families of properties that a profile can switch on or off
+export type PropertyGroup =
+  | 'geometry'
+  | 'layout'
+  | 'appearance'
+  | 'typography'
+  | 'content'
+  | 'components'
+  | 'variables'
+  | 'prototype';
+
+// A named set of property groups, built in or saved by the user
+export type ExtractProfile = {
+  id: string;
+  name: string;
+  groups: PropertyGroup[];
+  // Saved by the user rather than shipped with the plugin
+  custom?: boolean;
+};
+
+// Which nodes are exported: the selection, the current page's top-level nodes or frames,
+// or the top-level frames of every page
+export type ExtractScope = 'selection' | 'page' | 'frames' | 'document';
+
+// Narrows the nodes of a page or document scope down to a node type and a name pattern
+export type NodeFilter = {
+  // Node type such as FRAME or COMPONENT; null for any type
+  type: NodeType | null;
+  // Glob matched against the whole name, e.g. Screen/*; empty for any name
+  name: string;
+};
+
+// Table of contents of a page or document export
+export type PageContents = {
+  id: string;
+  name: string;
+  frames: { id: string; name: string; type: string; width: number; height: number }[];
+};
+
+export type ExtractOptions = {
+  // Levels of children to recurse into before summarizing; null for no limit
+  maxDepth: number | null;
+  // Emit variable and style references without their resolved values
+  referencesOnly: boolean;
+  // Export instances as their main component plus overrides instead of their full subtree
+  instanceOverridesOnly: boolean;
+  // Property groups to collect; name, type and children are always collected
+  groups: PropertyGroup[];
+  // Leave out properties that still have their Figma default value
+  omitDefaults: boolean;
+  // Fold repeated subtrees into shared templates that each repeat refers to
+  templates: boolean;
+  // Attach SVG markup to vector, boolean and icon nodes
+  svgVectors: boolean;
+  // Give every node its id, so edits can be addressed to it
+  nodeIds: boolean;
+  // Guess a semantic role per node and add an accessibility report to each root
+  annotations: boolean;
+  // Scale of the PNG rendered for each selected node; null to render none
+  previewScale: number | null;
+  // Nodes to export
+  scope: ExtractScope;
+  // Filter applied to the nodes of every scope but the selection
+  filter: NodeFilter;
+};
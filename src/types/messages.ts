@@ -1,6 +1,43 @@
-// Define your message types here when building your plugin.
-// Delete this file if not needed.
+// Messages exchanged between the plugin sandbox (canvas.ts) and the UI iframe
 
-export type PluginMessage = {
-  type: string;
-};
\ No newline at end of file
+import type { ExtractOptions, PageContents } from './extraction';
+import type { PatchOperation, PatchResult } from './patch';
+import type { FlowGraph } from './prototype';
+import type { DesignDiff, SnapshotSummary } from './snapshots';
+
+// A PNG rendered for one selected node
+export type PreviewImage = {
+  name: string;
+  file: string;
+  scale: number;
+  base64: string;
+};
+
+// Messages sent by the UI to the plugin
+export type UiMessage =
+  | { type: 'init' }
+  | { type: 'updateOptions'; options: Partial<ExtractOptions> }
+  | { type: 'cancelExtraction' }
+  | { type: 'listSnapshots' }
+  | { type: 'saveSnapshot'; name: string }
+  | { type: 'deleteSnapshot'; id: string }
+  | { type: 'diffSnapshot'; id: string }
+  | { type: 'exportTokens' }
+  | { type: 'exportFlows' }
+  | { type: 'applyPatch'; operations: PatchOperation[] }
+  | { type: 'saveSetting'; key: string; value: unknown }
+  | { type: 'notify'; message: string };
+
+// Messages sent by the plugin to the UI
+export type PluginMessage =
+  | { type: 'selectionChange'; data: any[] | null; images?: PreviewImage[]; contents?: PageContents[] }
+  // total counts the nodes found so far, so it grows while the run goes deeper
+  | { type: 'extractionProgress'; processed: number; total: number }
+  | { type: 'extractionCancelled' }
+  | { type: 'snapshots'; snapshots: SnapshotSummary[] }
+  | { type: 'diff'; diff: DesignDiff }
+  | { type: 'tokens'; data: any }
+  | { type: 'flows'; graph: FlowGraph }
+  | { type: 'patchResult'; result: PatchResult }
+  | { type: 'settings'; settings: Record<string, any> }
+  | { type: 'error'; message: string };
@@ -0,0 +1,34 @@
+// Edits pasted back from an LLM, addressed to nodes by the ids in the export
+
+// Auto layout spacing a setLayout operation can change; at least one is given
+export type LayoutPatchValues = {
+  itemSpacing?: number;
+  // Gap between wrapped rows, only on layouts that wrap
+  counterAxisSpacing?: number;
+  paddingTop?: number;
+  paddingRight?: number;
+  paddingBottom?: number;
+  paddingLeft?: number;
+};
+
+export type PatchOperation =
+  | { op: 'rename'; id: string; name: string }
+  | { op: 'setText'; id: string; characters: string }
+  // A hex color such as #0055FF or #0055FF80, or the name or id of a color variable
+  | { op: 'setFill'; id: string; color: string }
+  | { op: 'setFill'; id: string; variable: string }
+  | ({ op: 'setLayout'; id: string } & LayoutPatchValues)
+  | { op: 'setVisible'; id: string; visible: boolean };
+
+// An operation that could not be applied, by its position in the patch
+export type PatchFailure = {
+  index: number;
+  op: string;
+  id: string;
+  error: string;
+};
+
+export type PatchResult = {
+  applied: number;
+  failures: PatchFailure[];
+};
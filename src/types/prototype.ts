@@ -0,0 +1,28 @@
+// Navigation flows of a page: its screens and the prototype interactions between them
+
+export type FlowScreen = {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+};
+
+export type FlowEdge = {
+  // Screens the interaction leads from and to
+  from: string;
+  to: string;
+  // Layer the interaction is set on
+  source: { id: string; name: string };
+  trigger: string;
+  // NAVIGATE, OVERLAY, SWAP, SCROLL_TO or CHANGE_TO
+  navigation: string;
+  transition: any | null;
+};
+
+export type FlowGraph = {
+  page: { id: string; name: string };
+  // Prototype starting points, each the first screen of a named flow
+  flows: { name: string; screenId: string }[];
+  screens: FlowScreen[];
+  edges: FlowEdge[];
+};
@@ -0,0 +1,46 @@
+// Saved snapshots of an extracted selection, and the diff between a snapshot and the current selection
+
+// One node of a snapshot, flattened so nodes can be matched by id
+export type SnapshotNode = {
+  id: string;
+  parentId: string | null;
+  index: number;
+  // Layer names from the selection root down to the node, joined with " / "
+  path: string;
+  // Extracted properties of the node itself, without its children
+  properties: any;
+};
+
+export type Snapshot = {
+  id: string;
+  name: string;
+  // Name of the file the snapshot was taken in, at the time it was taken
+  file: string;
+  createdAt: number;
+  rootIds: string[];
+  nodes: Record<string, SnapshotNode>;
+};
+
+// What the UI needs to list a snapshot
+export type SnapshotSummary = {
+  id: string;
+  name: string;
+  createdAt: number;
+  nodeCount: number;
+};
+
+export type PropertyChange = {
+  property: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type DesignDiff = {
+  snapshot: { name: string; createdAt: number };
+  // Only the topmost added node of a new subtree is listed, with its descendants nested
+  added: { id: string; path: string; node: any }[];
+  // Only the topmost removed node of a deleted subtree is listed
+  removed: { id: string; path: string; type: string }[];
+  moved: { id: string; path: string; from: string; to: string }[];
+  changed: { id: string; path: string; changes: PropertyChange[] }[];
+};
@@ -0,0 +1,108 @@
+// Cuts extracted data down to a target token budget. Low-value properties are dropped
+// first, then the deepest subtrees are collapsed into summaries, one level at a time.
+
+import { summarizeSubtree } from './summary';
+
+// Property groups in the order they are given up, least useful for reproducing the design first.
+// Only the group names are reported in the output, to keep the truncation marker itself small.
+const PROPERTY_DROP_STAGES: { name: string; keys: string[] }[] = [
+  {
+    name: 'rendering details',
+    keys: ['blendMode', 'strokeCap', 'strokeJoin', 'strokeAlign', 'itemReverseZIndex', 'strokesIncludedInLayout', 'cornerSmoothing', 'gradientTransform', 'imageTransform', 'filters', 'showShadowBehindNode']
+  },
+  {
+    name: 'CSS hints and sizing modes',
+    keys: ['flex', 'flexItem', 'cssGrid', 'constraints', 'textAlignVertical', 'textAutoResize', 'primaryAxisSizingMode', 'counterAxisSizingMode', 'layoutAlign', 'layoutGrow']
+  },
+  {
+    name: 'positions, text runs and variable bindings',
+    keys: ['x', 'y', 'segments', 'layoutGrids', 'variables', 'componentPropertyDefinitions', 'minWidth', 'maxWidth', 'minHeight', 'maxHeight']
+  },
+  {
+    name: 'effects, strokes and vector markup',
+    keys: ['effects', 'strokes', 'strokeWeight', 'strokeWeights', 'description', 'clipsContent', 'opacity', 'visible', 'svg']
+  }
+];
+
+export type BudgetResult = {
+  data: any;
+  tokens: number;
+  truncated: boolean;
+};
+
+const mapNodes = (data: any, transform: (node: any, depth: number) => any, depth = 0): any => {
+  if (Array.isArray(data)) return data.map(node => mapNodes(node, transform, depth));
+  if (!data || typeof data !== 'object') return data;
+  const node = transform(data, depth);
+  if (Array.isArray(node.children)) {
+    return { ...node, children: node.children.map((child: any) => mapNodes(child, transform, depth + 1)) };
+  }
+  return node;
+};
+
+// Remove the given keys from nodes and their paints and effects, which all carry a type;
+// plain value objects such as shadow offsets are left intact
+const dropProperties = (value: any, keys: Set<string>): any => {
+  if (Array.isArray(value)) return value.map(item => dropProperties(item, keys));
+  if (!value || typeof value !== 'object') return value;
+  const isTyped = typeof value.type === 'string';
+  const result: any = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (!isTyped || !keys.has(key)) result[key] = dropProperties(child, keys);
+  }
+  return result;
+};
+
+const getTreeDepth = (data: any): number => {
+  if (Array.isArray(data)) return Math.max(0, ...data.map(getTreeDepth));
+  if (!data || !Array.isArray(data.children) || data.children.length === 0) return 0;
+  return 1 + Math.max(...data.children.map(getTreeDepth));
+};
+
+// Replace the children of every node at the given depth with a summary of them
+const collapseAtDepth = (data: any, collapseDepth: number) => mapNodes(data, (node, depth) => {
+  if (depth !== collapseDepth || !Array.isArray(node.children) || node.children.length === 0) return node;
+  const { children, ...rest } = node;
+  return {
+    ...rest,
+    childrenCount: children.length,
+    truncated: true,
+    summary: summarizeSubtree(children)
+  };
+});
+
+// Record what was given up on each root node so the model knows the output is partial
+const markRoots = (data: any, marker: any) => (Array.isArray(data)
+  ? data.map(node => ({ ...node, truncation: marker }))
+  : { ...data, truncation: marker });
+
+export const fitToBudget = (data: any, budget: number, measure: (data: any) => number): BudgetResult => {
+  let current = data;
+  let tokens = measure(current);
+  if (tokens <= budget) return { data: current, tokens, truncated: false };
+
+  const droppedProperties: string[] = [];
+  let collapsedBelowDepth: number | undefined;
+  const marked = () => markRoots(current, {
+    budget,
+    droppedProperties,
+    ...(collapsedBelowDepth !== undefined ? { collapsedBelowDepth } : {})
+  });
+
+  for (const stage of PROPERTY_DROP_STAGES) {
+    current = dropProperties(current, new Set(stage.keys));
+    droppedProperties.push(stage.name);
+    tokens = measure(marked());
+    if (tokens <= budget) return { data: marked(), tokens, truncated: true };
+  }
+
+  for (let depth = getTreeDepth(current) - 1; depth >= 0; depth--) {
+    current = collapseAtDepth(current, depth);
+    collapsedBelowDepth = depth;
+    tokens = measure(marked());
+    if (tokens <= budget) break;
+  }
+
+  // Even fully collapsed data may exceed a very small budget; return the smallest version
+  return { data: marked(), tokens, truncated: true };
+};
@@ -0,0 +1,198 @@
+// Translates extracted node data into CSS declarations. Auto layout becomes flexbox,
+// paints become backgrounds, borders and text colors, and effects become shadows and filters.
+
+export type CssDeclarations = Record<string, string>;
+
+const px = (value: number) => `${Math.round(value * 100) / 100}px`;
+
+// flexDirection -> flex-direction
+const toKebabCase = (property: string) => property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+// color/brand/primary -> --color-brand-primary
+export const toCssVariableName = (variableName: string) =>
+  `--${variableName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+const formatColor = (color: any, opacity = 1): string => {
+  const alpha = (color.a ?? 1) * opacity;
+  if (alpha >= 1) return color.hex;
+  const channel = (value: number) => Math.round(value * 255);
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${Math.round(alpha * 1000) / 1000})`;
+};
+
+// Colors bound to variables are written as custom properties, with the resolved color as fallback
+const formatPaintColor = (source: any, opacity = 1): string | null => {
+  const fallback = source.color ? formatColor(source.color, opacity) : null;
+  if (source.variable) {
+    const name = toCssVariableName(source.variable.variable);
+    return fallback ? `var(${name}, ${fallback})` : `var(${name})`;
+  }
+  return fallback;
+};
+
+const formatGradient = (paint: any): string | null => {
+  const stops = paint.gradientStops
+    .map((stop: any) => `${formatPaintColor(stop, paint.opacity)} ${Math.round(stop.position * 10000) / 100}%`)
+    .join(', ');
+  if (paint.type === 'GRADIENT_LINEAR') return `linear-gradient(${paint.angle ?? 180}deg, ${stops})`;
+  if (paint.type === 'GRADIENT_RADIAL' || paint.type === 'GRADIENT_DIAMOND') return `radial-gradient(${stops})`;
+  if (paint.type === 'GRADIENT_ANGULAR') return `conic-gradient(${stops})`;
+  return null;
+};
+
+// Figma lists paints bottom-up while CSS backgrounds are listed top-down
+const applyFills = (fills: any, styles: CssDeclarations) => {
+  if (!Array.isArray(fills) || fills.length === 0) return;
+
+  const layers = [...fills].reverse();
+  const images: string[] = [];
+  for (const paint of layers) {
+    if (paint.type === 'SOLID' && layers.length === 1) {
+      const color = formatPaintColor(paint, paint.opacity);
+      if (color) styles['background-color'] = color;
+    } else if (paint.type === 'SOLID') {
+      const color = formatPaintColor(paint, paint.opacity);
+      if (color) images.push(`linear-gradient(${color}, ${color})`);
+    } else if (paint.type.startsWith('GRADIENT_')) {
+      const gradient = formatGradient(paint);
+      if (gradient) images.push(gradient);
+    } else if (paint.type === 'IMAGE') {
+      images.push(`url("${paint.imageHash ?? 'image'}.png")`);
+      styles['background-size'] = paint.scaleMode === 'FIT' ? 'contain' : paint.scaleMode === 'TILE' ? 'auto' : 'cover';
+      styles['background-position'] = 'center';
+    }
+  }
+  if (images.length > 0) styles['background-image'] = images.join(', ');
+};
+
+const applyStrokes = (node: any, styles: CssDeclarations) => {
+  if (!Array.isArray(node.strokes) || node.strokes.length === 0) return;
+  const [stroke] = node.strokes;
+  const color = stroke.type === 'SOLID' ? formatPaintColor(stroke, stroke.opacity) : null;
+  if (!color) return;
+
+  const style = 'solid';
+  if (node.strokeWeights) {
+    const { top, right, bottom, left } = node.strokeWeights;
+    styles['border-style'] = style;
+    styles['border-color'] = color;
+    styles['border-width'] = `${px(top)} ${px(right)} ${px(bottom)} ${px(left)}`;
+  } else if (typeof node.strokeWeight === 'number' && node.strokeWeight > 0) {
+    // Outside strokes don't take up layout space in Figma, which outline matches
+    const property = node.strokeAlign === 'OUTSIDE' ? 'outline' : 'border';
+    styles[property] = `${px(node.strokeWeight)} ${style} ${color}`;
+  }
+};
+
+const applyEffects = (node: any, styles: CssDeclarations) => {
+  if (!Array.isArray(node.effects) || node.effects.length === 0) return;
+
+  const shadows: string[] = [];
+  for (const effect of node.effects) {
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+      const color = formatPaintColor(effect) ?? '#000000';
+      const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
+      const spread = node.type === 'TEXT' ? '' : ` ${px(effect.spread ?? 0)}`;
+      shadows.push(`${inset}${px(effect.offset.x)} ${px(effect.offset.y)} ${px(effect.radius)}${spread} ${color}`);
+    } else if (effect.type === 'LAYER_BLUR') {
+      // Figma blur radius is roughly twice the CSS blur standard deviation
+      styles.filter = `blur(${px(effect.radius / 2)})`;
+    } else if (effect.type === 'BACKGROUND_BLUR') {
+      styles['backdrop-filter'] = `blur(${px(effect.radius / 2)})`;
+    }
+  }
+  if (shadows.length > 0) styles[node.type === 'TEXT' ? 'text-shadow' : 'box-shadow'] = shadows.join(', ');
+};
+
+const TEXT_TRANSFORMS: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize'
+};
+
+const TEXT_DECORATIONS: Record<string, string> = {
+  UNDERLINE: 'underline',
+  STRIKETHROUGH: 'line-through'
+};
+
+const applyTypography = (node: any, styles: CssDeclarations) => {
+  if (node.fontFamily) styles['font-family'] = `'${node.fontFamily}', sans-serif`;
+  if (node.fontSize !== undefined) styles['font-size'] = px(node.fontSize);
+  if (node.fontWeight !== undefined) styles['font-weight'] = String(node.fontWeight);
+  if (node.fontStyle && /italic/i.test(node.fontStyle)) styles['font-style'] = 'italic';
+  if (node.lineHeight === 'AUTO') {
+    styles['line-height'] = 'normal';
+  } else if (node.lineHeight) {
+    styles['line-height'] = node.lineHeight.unit === 'PERCENT' ? `${node.lineHeight.value}%` : px(node.lineHeight.value);
+  }
+  if (node.letterSpacing && node.letterSpacing.value !== 0) {
+    styles['letter-spacing'] = node.letterSpacing.unit === 'PERCENT'
+      ? `${Math.round(node.letterSpacing.value * 10) / 1000}em`
+      : px(node.letterSpacing.value);
+  }
+  if (node.textAlignHorizontal && node.textAlignHorizontal !== 'LEFT') {
+    styles['text-align'] = node.textAlignHorizontal === 'JUSTIFIED' ? 'justify' : node.textAlignHorizontal.toLowerCase();
+  }
+  if (TEXT_TRANSFORMS[node.textCase]) styles['text-transform'] = TEXT_TRANSFORMS[node.textCase];
+  if (TEXT_DECORATIONS[node.textDecoration]) styles['text-decoration'] = TEXT_DECORATIONS[node.textDecoration];
+
+  // Text is drawn in its topmost visible fill, the last one in the list
+  const fill = Array.isArray(node.fills) ? [...node.fills].reverse().find((paint: any) => paint.visible !== false) : null;
+  if (fill?.type === 'SOLID') {
+    const color = formatPaintColor(fill, fill.opacity);
+    if (color) styles.color = color;
+  }
+};
+
+const isAutoLayout = (node: any) => node && node.layoutMode && node.layoutMode !== 'NONE';
+
+// Build the CSS declarations for a node, given its parent in the extracted tree (null for the root)
+export const buildStyles = (node: any, parent: any | null): CssDeclarations => {
+  const styles: CssDeclarations = {};
+  const inFlow = isAutoLayout(parent) && node.layoutPositioning !== 'ABSOLUTE';
+
+  // Children of frames without auto layout keep their absolute position
+  // Positions are missing when the extraction profile leaves geometry out
+  if (parent && !inFlow && typeof node.x === 'number' && typeof parent.x === 'number') {
+    styles.position = 'absolute';
+    styles.left = px(node.x - parent.x);
+    styles.top = px(node.y - parent.y);
+  } else if (Array.isArray(node.children) && node.children.some((child: any) => !isAutoLayout(node) || child.layoutPositioning === 'ABSOLUTE')) {
+    styles.position = 'relative';
+  }
+
+  // Hugging sizes are left to the content and filling sizes to the flex item rules
+  if (typeof node.width === 'number' && (!inFlow || node.layoutSizingHorizontal === 'FIXED')) {
+    if (node.type !== 'TEXT' || node.textAutoResize !== 'WIDTH_AND_HEIGHT') styles.width = px(node.width);
+  }
+  if (typeof node.height === 'number' && (!inFlow || node.layoutSizingVertical === 'FIXED')) {
+    if (node.type !== 'TEXT' || node.textAutoResize === 'NONE' || node.textAutoResize === 'TRUNCATE') styles.height = px(node.height);
+  }
+
+  if (node.flex) {
+    for (const [property, value] of Object.entries(node.flex)) styles[toKebabCase(property)] = String(value);
+  }
+  if (node.flexItem && inFlow) {
+    for (const [property, value] of Object.entries(node.flexItem)) styles[toKebabCase(property)] = String(value);
+  }
+
+  if (node.type === 'TEXT') {
+    applyTypography(node, styles);
+  } else {
+    applyFills(node.fills, styles);
+  }
+  applyStrokes(node, styles);
+
+  if (node.cornerRadius) styles['border-radius'] = px(node.cornerRadius);
+  if (node.cornerRadii) {
+    const { topLeft, topRight, bottomRight, bottomLeft } = node.cornerRadii;
+    styles['border-radius'] = `${px(topLeft)} ${px(topRight)} ${px(bottomRight)} ${px(bottomLeft)}`;
+  }
+  applyEffects(node, styles);
+
+  if (node.opacity !== undefined && node.opacity < 1) styles.opacity = String(Math.round(node.opacity * 100) / 100);
+  if (node.clipsContent) styles.overflow = 'hidden';
+  // Figma rotates counter-clockwise, CSS clockwise
+  if (node.rotation) styles.transform = `rotate(${Math.round(-node.rotation * 100) / 100}deg)`;
+
+  return styles;
+};
@@ -0,0 +1,105 @@
+// Turns the extracted node tree into a tree of HTML elements with their CSS declarations,
+// shared by the HTML/CSS and Tailwind generators.
+
+import { buildStyles, CssDeclarations } from './css';
+
+export type Element = {
+  tag: string;
+  className: string;
+  styles: CssDeclarations;
+  attributes: Record<string, string>;
+  text?: string;
+  // Exported vector markup, rendered in place of children
+  svg?: string;
+  children: Element[];
+};
+
+export const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'POLYGON'];
+
+// Tags for the roles guessed by the accessibility annotations
+const ROLE_TAGS: Record<string, string> = {
+  button: 'button',
+  link: 'a',
+  list: 'ul',
+  listitem: 'li'
+};
+
+// Pick a semantic tag from the annotated role, or else the node type, its name and its text size
+const chooseTag = (node: any): string => {
+  if (node.role === 'heading' && node.headingLevel) return `h${node.headingLevel}`;
+  if (ROLE_TAGS[node.role]) return ROLE_TAGS[node.role];
+
+  const name = String(node.name).toLowerCase();
+  if (node.type === 'TEXT') {
+    if (node.fontSize >= 32) return 'h1';
+    if (node.fontSize >= 24) return 'h2';
+    if (node.fontSize >= 20) return 'h3';
+    return /\s/.test(node.characters ?? '') ? 'p' : 'span';
+  }
+  if (/\bbutton\b|\bbtn\b/.test(name)) return 'button';
+  if (/\blink\b/.test(name)) return 'a';
+  if (/\bnav(igation|bar)?\b/.test(name)) return 'nav';
+  if (/\bheader\b/.test(name)) return 'header';
+  if (/\bfooter\b/.test(name)) return 'footer';
+  if (/\b(list)\b/.test(name)) return 'ul';
+  if (VECTOR_TYPES.includes(node.type)) return 'span';
+  return 'div';
+};
+
+const toClassName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'node';
+
+// Build one element tree per selected node, giving every element a unique class name derived from its layer name
+export const buildElementTrees = (roots: any[]): Element[] => {
+  const usedClassNames = new Map<string, number>();
+
+  const uniqueClassName = (name: string) => {
+    const base = toClassName(name);
+    const count = usedClassNames.get(base) ?? 0;
+    usedClassNames.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  };
+
+  const build = (node: any, parent: any | null, parentTag: string | null): Element => {
+    let tag = chooseTag(node);
+    // List children become list items so the markup stays valid
+    if (parentTag === 'ul') tag = 'li';
+
+    const element: Element = {
+      tag,
+      className: uniqueClassName(node.name),
+      styles: buildStyles(node, parent),
+      attributes: {},
+      children: []
+    };
+
+    if (node.component?.name) element.attributes['data-component'] = node.component.name;
+    if (tag === 'a') element.attributes.href = '#';
+    if (tag === 'button') element.attributes.type = 'button';
+    if (node.role === 'icon') {
+      // Icons next to a label only repeat it
+      element.attributes['aria-hidden'] = 'true';
+    } else if (node.role === 'image' || VECTOR_TYPES.includes(node.type)) {
+      element.attributes.role = 'img';
+      element.attributes['aria-label'] = node.name;
+    } else if (node.role === 'input') {
+      const control = /checkbox|radio|switch/i.exec(node.name);
+      element.attributes.role = control ? control[0].toLowerCase() : 'textbox';
+      element.attributes['aria-label'] = node.name;
+    }
+
+    if (node.type === 'TEXT') {
+      element.text = node.characters;
+    } else if (typeof node.svg === 'string') {
+      element.svg = node.svg;
+    } else if (Array.isArray(node.children)) {
+      element.children = node.children
+        .filter((child: any) => child.visible !== false)
+        .map((child: any) => build(child, node, tag));
+    }
+
+    return element;
+  };
+
+  return roots.map(root => build(root, null, null));
+};
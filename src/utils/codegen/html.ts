@@ -0,0 +1,41 @@
+// Semantic HTML with a stylesheet of one class per element
+
+import { Element } from './elements';
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Render the element tree as indented markup, with classes supplied per element
+export const renderMarkup = (element: Element, getClass: (element: Element) => string, indent = ''): string[] => {
+  const attributes = [`class="${escapeHtml(getClass(element))}"`, ...Object.entries(element.attributes)
+    .map(([name, value]) => `${name}="${escapeHtml(value)}"`)].join(' ');
+  const open = `${indent}<${element.tag} ${attributes}>`;
+  const close = `</${element.tag}>`;
+
+  if (element.text !== undefined) {
+    return [`${open}${escapeHtml(element.text).replace(/\n/g, '<br />')}${close}`];
+  }
+  if (element.svg !== undefined) {
+    const svgLines = element.svg.trim().split('\n').map(line => `${indent}  ${line}`);
+    return [open, ...svgLines, `${indent}${close}`];
+  }
+  if (element.children.length === 0) return [`${open}${close}`];
+
+  return [
+    open,
+    ...element.children.flatMap(child => renderMarkup(child, getClass, `${indent}  `)),
+    `${indent}${close}`
+  ];
+};
+
+const renderStylesheet = (element: Element): string[] => {
+  const declarations = Object.entries(element.styles).map(([property, value]) => `  ${property}: ${value};`);
+  const rule = declarations.length > 0 ? [`.${element.className} {`, ...declarations, '}'] : [];
+  return [...rule, ...element.children.flatMap(renderStylesheet)];
+};
+
+export const generateHtml = (elements: Element[]): string => {
+  const markup = elements.flatMap(element => renderMarkup(element, el => el.className));
+  const stylesheet = elements.flatMap(renderStylesheet);
+  return [...markup, '', '<style>', ...stylesheet, '</style>'].join('\n');
+};
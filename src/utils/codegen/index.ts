@@ -0,0 +1,21 @@
+// Deterministic code scaffolds generated from the extracted selection
+
+import { expandTemplates } from '../templates';
+import { buildElementTrees } from './elements';
+import { generateHtml } from './html';
+import { generateTailwind } from './tailwind';
+
+export type CodeFlavor = 'html' | 'tailwind';
+
+export const CODE_FLAVORS: { id: CodeFlavor; label: string }[] = [
+  { id: 'html', label: 'HTML + CSS' },
+  { id: 'tailwind', label: 'Tailwind' }
+];
+
+export const generateCode = (data: unknown, flavor: CodeFlavor): string => {
+  // Repeats are spelled out again, since every element needs its own markup
+  const expanded = expandTemplates(data);
+  const nodes = (Array.isArray(expanded) ? expanded : [expanded]).filter((node: any) => node && node.type);
+  const elements = buildElementTrees(nodes);
+  return flavor === 'tailwind' ? generateTailwind(elements) : generateHtml(elements);
+};
@@ -0,0 +1,117 @@
+// Tailwind markup: CSS declarations are mapped onto utility classes, using arbitrary
+// values where the design doesn't sit on Tailwind's default scale.
+
+import { CssDeclarations } from './css';
+import { Element } from './elements';
+import { renderMarkup } from './html';
+
+// Arbitrary values can't contain spaces; Tailwind reads underscores as spaces
+const arbitrary = (value: string) => `[${value.replace(/\s+/g, '_')}]`;
+
+const KEYWORD_CLASSES: Record<string, Record<string, string>> = {
+  display: { flex: 'flex', grid: 'grid', none: 'hidden' },
+  'flex-direction': { row: 'flex-row', column: 'flex-col' },
+  'flex-wrap': { wrap: 'flex-wrap' },
+  'justify-content': {
+    'flex-start': 'justify-start',
+    center: 'justify-center',
+    'flex-end': 'justify-end',
+    'space-between': 'justify-between'
+  },
+  'align-items': {
+    'flex-start': 'items-start',
+    center: 'items-center',
+    'flex-end': 'items-end',
+    baseline: 'items-baseline',
+    stretch: 'items-stretch'
+  },
+  'align-content': { 'space-between': 'content-between' },
+  'align-self': { stretch: 'self-stretch' },
+  flex: { '1 1 0': 'flex-1' },
+  'flex-shrink': { '0': 'shrink-0' },
+  position: { absolute: 'absolute', relative: 'relative' },
+  overflow: { hidden: 'overflow-hidden' },
+  'font-style': { italic: 'italic' },
+  'text-align': { center: 'text-center', right: 'text-right', justify: 'text-justify' },
+  'text-transform': { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize' },
+  'text-decoration': { underline: 'underline', 'line-through': 'line-through' }
+};
+
+// Utility prefixes for properties that take arbitrary values
+const VALUE_PREFIXES: Record<string, string> = {
+  width: 'w',
+  height: 'h',
+  'min-width': 'min-w',
+  'max-width': 'max-w',
+  'min-height': 'min-h',
+  'max-height': 'max-h',
+  left: 'left',
+  top: 'top',
+  gap: 'gap',
+  'row-gap': 'gap-y',
+  'column-gap': 'gap-x',
+  'background-color': 'bg',
+  'background-image': 'bg',
+  color: 'text',
+  'font-size': 'text',
+  'font-weight': 'font',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+  'border-radius': 'rounded',
+  'border-width': 'border',
+  'border-color': 'border',
+  'box-shadow': 'shadow',
+  opacity: 'opacity'
+};
+
+const paddingClasses = (value: string): string[] => {
+  const [top, right = top, bottom = top, left = right] = value.split(' ');
+  if (top === right && top === bottom && top === left) return top === '0px' ? [] : [`p-${arbitrary(top)}`];
+  const classes: string[] = [];
+  if (top === bottom) classes.push(`py-${arbitrary(top)}`);
+  else classes.push(`pt-${arbitrary(top)}`, `pb-${arbitrary(bottom)}`);
+  if (left === right) classes.push(`px-${arbitrary(left)}`);
+  else classes.push(`pr-${arbitrary(right)}`, `pl-${arbitrary(left)}`);
+  return classes.filter(name => !name.endsWith('[0px]'));
+};
+
+const blurValue = (value: string) => value.replace(/^blur\((.*)\)$/, '$1');
+
+export const toTailwindClasses = (styles: CssDeclarations): string[] => {
+  const classes: string[] = [];
+
+  for (const [property, value] of Object.entries(styles)) {
+    const keyword = KEYWORD_CLASSES[property]?.[value];
+    if (keyword) {
+      classes.push(keyword);
+    } else if (property === 'padding') {
+      classes.push(...paddingClasses(value));
+    } else if (property === 'font-family') {
+      classes.push(`font-${arbitrary(value.split(',')[0])}`);
+    } else if (property === 'border' || property === 'outline') {
+      const [width, style, ...color] = value.split(' ');
+      const prefix = property === 'border' ? 'border' : 'outline';
+      classes.push(`${prefix}-${arbitrary(width)}`, `${prefix}-${style}`, `${prefix}-${arbitrary(color.join(' '))}`);
+    } else if (property === 'filter') {
+      classes.push(`blur-${arbitrary(blurValue(value))}`);
+    } else if (property === 'backdrop-filter') {
+      classes.push(`backdrop-blur-${arbitrary(blurValue(value))}`);
+    } else if (property === 'transform') {
+      classes.push(`rotate-${arbitrary(value.replace(/^rotate\((.*)\)$/, '$1'))}`);
+    } else if (property === 'text-shadow') {
+      classes.push(`[text-shadow:${arbitrary(value).slice(1, -1)}]`);
+    } else if (VALUE_PREFIXES[property]) {
+      // Colors and lengths share prefixes, so hint the type where Tailwind can't infer it
+      const hint = (property === 'color' || property === 'border-color') && value.startsWith('var(') ? 'color:' : '';
+      classes.push(`${VALUE_PREFIXES[property]}-[${hint}${arbitrary(value).slice(1, -1)}]`);
+    } else {
+      // Anything else falls back to an arbitrary property
+      classes.push(`[${property}:${arbitrary(value).slice(1, -1)}]`);
+    }
+  }
+
+  return classes;
+};
+
+export const generateTailwind = (elements: Element[]): string =>
+  elements.flatMap(element => renderMarkup(element, el => toTailwindClasses(el.styles).join(' '))).join('\n');
@@ -0,0 +1,81 @@
+// Strips properties that still hold their Figma default value from extracted data, so the
+// output only spells out what a designer actually changed.
+
+// Default values per property name; a property is dropped when it equals any of them.
+// Fills are kept even when empty: new frames get a white fill, so no fill is a choice.
+const DEFAULT_VALUES: Record<string, unknown[]> = {
+  visible: [true],
+  opacity: [1],
+  a: [1],
+  rotation: [0],
+  clipsContent: [false],
+  constraints: [{ horizontal: 'MIN', vertical: 'MIN' }],
+  cornerRadius: [0],
+  cornerSmoothing: [0],
+  strokes: [[]],
+  effects: [[]],
+  layoutGrids: [[]],
+  strokeAlign: ['INSIDE'],
+  strokeCap: ['NONE'],
+  strokeJoin: ['MITER'],
+  spread: [0],
+  layoutMode: ['NONE'],
+  layoutWrap: ['NO_WRAP'],
+  primaryAxisAlignItems: ['MIN'],
+  counterAxisAlignItems: ['MIN'],
+  paddingTop: [0],
+  paddingRight: [0],
+  paddingBottom: [0],
+  paddingLeft: [0],
+  itemSpacing: [0],
+  itemReverseZIndex: [false],
+  strokesIncludedInLayout: [false],
+  layoutGrow: [0],
+  layoutAlign: ['INHERIT'],
+  textCase: ['ORIGINAL'],
+  textDecoration: ['NONE'],
+  letterSpacing: [{ value: 0, unit: 'PERCENT' }, { value: 0, unit: 'PIXELS' }],
+  lineHeight: ['AUTO'],
+  textAlignHorizontal: ['LEFT'],
+  textAlignVertical: ['TOP'],
+};
+
+// Blend modes default differently on nodes, which pass through to what's below, and on their
+// paints and effects
+type DefaultsContext = 'node' | 'paint';
+const BLEND_MODE_DEFAULTS: Record<DefaultsContext, string> = { node: 'PASS_THROUGH', paint: 'NORMAL' };
+
+// Properties holding paints or effects rather than nodes
+const PAINT_KEYS = new Set(['fills', 'strokes', 'effects']);
+
+// Stroke details mean nothing once a node has no strokes left
+const STROKE_DETAILS = ['strokeWeight', 'strokeWeights', 'strokeAlign', 'strokeCap', 'strokeJoin'];
+
+// Maps keyed by user-defined names, and overrides, where a default value is a deliberate change
+const PRESERVED_KEYS = new Set(['variantProperties', 'componentProperties', 'componentPropertyDefinitions', 'overrides']);
+
+const isDefault = (key: string, value: unknown, context: DefaultsContext) => {
+  if (key === 'blendMode') return value === BLEND_MODE_DEFAULTS[context];
+  return DEFAULT_VALUES[key]?.some(defaultValue => JSON.stringify(defaultValue) === JSON.stringify(value)) ?? false;
+};
+
+export const omitDefaultValues = (value: any, context: DefaultsContext = 'node'): any => {
+  if (Array.isArray(value)) return value.map(item => omitDefaultValues(item, context));
+  if (!value || typeof value !== 'object') return value;
+
+  const result: any = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (PRESERVED_KEYS.has(key)) {
+      result[key] = child;
+    } else if (!isDefault(key, child, context)) {
+      const childContext = PAINT_KEYS.has(key) ? 'paint' : key === 'children' ? 'node' : context;
+      result[key] = omitDefaultValues(child, childContext);
+    }
+  }
+
+  if ('type' in value && !result.strokes && !result.strokeStyle) {
+    for (const key of STROKE_DETAILS) delete result[key];
+  }
+
+  return result;
+};
@@ -0,0 +1,161 @@
+// Compares two snapshots of a selection: nodes are matched by id, then sorted into added,
+// removed, moved and changed, the latter with per-property old and new values.
+
+import type { DesignDiff, PropertyChange, Snapshot, SnapshotNode } from '../types/snapshots';
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Colors change as a whole, so they are compared and reported as one value
+const isColor = (value: any) => isPlainObject(value) && typeof value.hex === 'string';
+
+// Collect property changes down to the leaves, keyed by paths such as fills[0].color
+const diffProperties = (before: any, after: any, path: string, changes: PropertyChange[]) => {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, index) => diffProperties(item, after[index], `${path}[${index}]`, changes));
+  } else if (isPlainObject(before) && isPlainObject(after) && !isColor(before) && !isColor(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffProperties(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+  } else {
+    changes.push({ property: path, before, after });
+  }
+};
+
+// Rebuild the nested data of a subtree from flattened snapshot nodes
+const buildSubtree = (id: string, nodes: Record<string, SnapshotNode>, childrenOf: Map<string, SnapshotNode[]>): any => {
+  const children = (childrenOf.get(id) ?? [])
+    .sort((a, b) => a.index - b.index)
+    .map(child => buildSubtree(child.id, nodes, childrenOf));
+  return children.length > 0 ? { ...nodes[id].properties, children } : nodes[id].properties;
+};
+
+const groupByParent = (nodes: Record<string, SnapshotNode>) => {
+  const childrenOf = new Map<string, SnapshotNode[]>();
+  for (const node of Object.values(nodes)) {
+    if (!node.parentId) continue;
+    if (!childrenOf.has(node.parentId)) childrenOf.set(node.parentId, []);
+    childrenOf.get(node.parentId)!.push(node);
+  }
+  return childrenOf;
+};
+
+const describePlace = (node: SnapshotNode, nodes: Record<string, SnapshotNode>) => {
+  const parent = node.parentId ? nodes[node.parentId] : undefined;
+  return `${parent ? parent.path : '(selection)'} [${node.index}]`;
+};
+
+// Positions in a longest increasing run of the values, found by patience sorting
+const longestIncreasing = (values: number[]): Set<number> => {
+  // Position of the smallest value ending a run of each length, and the position before each value
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, position) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) low = middle + 1;
+      else high = middle;
+    }
+    previous[position] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = position;
+  });
+
+  const positions = new Set<number>();
+  for (let position = tails.length > 0 ? tails[tails.length - 1] : -1; position >= 0; position = previous[position]) {
+    positions.add(position);
+  }
+  return positions;
+};
+
+// Children that kept their parent but changed order relative to each other. The largest group of
+// siblings still in their old order stays put, so moving one child reports only that child.
+const findReordered = (before: Snapshot['nodes'], after: Snapshot['nodes']): Set<string> => {
+  const reordered = new Set<string>();
+  const siblings = new Map<string | null, SnapshotNode[]>();
+  for (const node of Object.values(after)) {
+    const previous = before[node.id];
+    if (!previous || previous.parentId !== node.parentId) continue;
+    if (!siblings.has(node.parentId)) siblings.set(node.parentId, []);
+    siblings.get(node.parentId)!.push(node);
+  }
+  siblings.forEach(nodes => {
+    const afterOrder = [...nodes].sort((a, b) => a.index - b.index);
+    const kept = longestIncreasing(afterOrder.map(node => before[node.id].index));
+    afterOrder.forEach((node, position) => {
+      if (!kept.has(position)) reordered.add(node.id);
+    });
+  });
+  return reordered;
+};
+
+export const diffSnapshots = (snapshot: Snapshot, current: Snapshot['nodes']): DesignDiff => {
+  const before = snapshot.nodes;
+  const diff: DesignDiff = {
+    snapshot: { name: snapshot.name, createdAt: snapshot.createdAt },
+    added: [],
+    removed: [],
+    moved: [],
+    changed: []
+  };
+  const reordered = findReordered(before, current);
+  const childrenOf = groupByParent(current);
+
+  for (const node of Object.values(current)) {
+    const previous = before[node.id];
+    if (!previous) {
+      if (!node.parentId || before[node.parentId]) {
+        diff.added.push({ id: node.id, path: node.path, node: buildSubtree(node.id, current, childrenOf) });
+      }
+      continue;
+    }
+
+    if (previous.parentId !== node.parentId || reordered.has(node.id)) {
+      diff.moved.push({
+        id: node.id,
+        path: node.path,
+        from: describePlace(previous, before),
+        to: describePlace(node, current)
+      });
+    }
+
+    const changes: PropertyChange[] = [];
+    diffProperties(previous.properties, node.properties, '', changes);
+    if (changes.length > 0) diff.changed.push({ id: node.id, path: node.path, changes });
+  }
+
+  for (const node of Object.values(before)) {
+    if (current[node.id]) continue;
+    if (!node.parentId || current[node.parentId]) {
+      diff.removed.push({ id: node.id, path: node.path, type: node.properties.type });
+    }
+  }
+
+  return diff;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '(none)';
+  if (isColor(value)) return (value as any).hex;
+  return JSON.stringify(value);
+};
+
+// Readable changelog, one line per node and one indented line per property
+export const formatChangelog = (diff: DesignDiff): string => {
+  const lines = [`Changes since "${diff.snapshot.name}" (${new Date(diff.snapshot.createdAt).toLocaleString()})`];
+
+  for (const { path, node } of diff.added) lines.push(`+ Added ${path} (${node.type})`);
+  for (const { path, type } of diff.removed) lines.push(`- Removed ${path} (${type})`);
+  for (const { path, from, to } of diff.moved) lines.push(`~ Moved ${path}: ${from} → ${to}`);
+  for (const { path, changes } of diff.changed) {
+    lines.push(`* Changed ${path}`);
+    for (const { property, before, after } of changes) {
+      lines.push(`    ${property}: ${formatValue(before)} → ${formatValue(after)}`);
+    }
+  }
+
+  if (lines.length === 1) lines.push('No changes');
+  return lines.join('\n');
+};
@@ -0,0 +1,30 @@
+// Writes a page's flow graph as a Mermaid flowchart: one node per screen, flow starting
+// points as rounded nodes pointing at their first screen, and one arrow per interaction.
+
+import type { FlowGraph } from '../types/prototype';
+
+// Quotes would end a Mermaid label early
+const toLabel = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+
+// ON_CLICK -> click, MOUSE_ENTER -> mouse enter
+const formatTrigger = (trigger: string) => trigger.replace(/^ON_/, '').toLowerCase().replace(/_/g, ' ');
+
+export const formatMermaid = (graph: FlowGraph): string => {
+  // Figma ids contain colons, so screens get short ids of their own
+  const screenKeys = new Map(graph.screens.map((screen, index) => [screen.id, `s${index}`]));
+  const lines = ['flowchart LR'];
+
+  graph.screens.forEach(screen => lines.push(`  ${screenKeys.get(screen.id)}[${toLabel(screen.name)}]`));
+  graph.flows.forEach((flow, index) => {
+    lines.push(`  f${index}([${toLabel(flow.name)}]) --> ${screenKeys.get(flow.screenId)}`);
+  });
+  for (const edge of graph.edges) {
+    const navigation = edge.navigation === 'NAVIGATE' ? '' : ` (${edge.navigation.toLowerCase().replace(/_/g, ' ')})`;
+    const label = toLabel(`${formatTrigger(edge.trigger)} ${edge.source.name}${navigation}`);
+    // Overlays and swaps are drawn dotted, since they don't leave the screen
+    const arrow = edge.navigation === 'NAVIGATE' ? '-->' : '-.->';
+    lines.push(`  ${screenKeys.get(edge.from)} ${arrow}|${label}| ${screenKeys.get(edge.to)}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,7 @@
+// Typed wrapper around the UI side of the plugin message channel
+
+import type { UiMessage } from '../types/messages';
+
+export const postToPlugin = (message: UiMessage) => {
+  parent.postMessage({ pluginMessage: message }, '*');
+};
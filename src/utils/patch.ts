@@ -0,0 +1,77 @@
+// Parses a JSON patch pasted into the Apply panel. Only the shape of each operation is checked
+// here; whether it fits the node it targets is checked by the plugin against the live node.
+
+import type { LayoutPatchValues, PatchOperation, PatchResult } from '../types/patch';
+
+export const LAYOUT_PATCH_KEYS: readonly (keyof LayoutPatchValues)[] = ['itemSpacing', 'counterAxisSpacing', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'];
+
+// Shown in the panel, and copied along with a prompt so the model knows what to write
+export const PATCH_EXAMPLE = {
+  operations: [
+    { op: 'rename', id: '12:34', name: 'Primary button' },
+    { op: 'setText', id: '12:35', characters: 'Start free trial' },
+    { op: 'setFill', id: '12:34', color: '#0055FF' },
+    { op: 'setFill', id: '12:36', variable: 'color/surface/brand' },
+    { op: 'setLayout', id: '12:34', itemSpacing: 8, paddingLeft: 16, paddingRight: 16 },
+    { op: 'setVisible', id: '12:37', visible: false }
+  ]
+};
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// #05F, #0055FF or #0055FF80 as 0-1 channels
+export const parseHexColor = (hex: string): { r: number; g: number; b: number; a: number } | null => {
+  const match = HEX_COLOR.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  const channel = (offset: number) => parseInt(digits.slice(offset, offset + 2), 16) / 255;
+  return { r: channel(0), g: channel(2), b: channel(4), a: digits.length === 8 ? channel(6) : 1 };
+};
+
+// Why an operation is malformed, or null when it is well formed
+const checkOperation = (operation: any): string | null => {
+  if (!operation || typeof operation !== 'object') return 'is not an object';
+  if (typeof operation.id !== 'string' || !operation.id) return 'has no node id';
+
+  switch (operation.op) {
+    case 'rename':
+      return typeof operation.name === 'string' && operation.name.trim() ? null : 'needs a non-empty name';
+    case 'setText':
+      return typeof operation.characters === 'string' ? null : 'needs characters';
+    case 'setFill':
+      if (typeof operation.variable === 'string' && operation.variable) return null;
+      return typeof operation.color === 'string' && parseHexColor(operation.color) ? null : 'needs a hex color or a variable';
+    case 'setLayout': {
+      const keys = LAYOUT_PATCH_KEYS.filter(key => key in operation);
+      if (keys.length === 0) return `needs one of ${LAYOUT_PATCH_KEYS.join(', ')}`;
+      const invalid = keys.find(key => typeof operation[key] !== 'number' || !Number.isFinite(operation[key]));
+      return invalid ? `needs a number for ${invalid}` : null;
+    }
+    case 'setVisible':
+      return typeof operation.visible === 'boolean' ? null : 'needs visible: true or false';
+    default:
+      return `has unknown op ${JSON.stringify(operation.op)}`;
+  }
+};
+
+// Accepts { operations: [...] } or a bare list; throws with every malformed operation listed
+export const parsePatch = (text: string): PatchOperation[] => {
+  const parsed = JSON.parse(text);
+  const operations = Array.isArray(parsed) ? parsed : parsed?.operations;
+  if (!Array.isArray(operations) || operations.length === 0) throw new Error('No operations found in patch');
+
+  const errors = operations
+    .map((operation, index) => {
+      const error = checkOperation(operation);
+      return error ? `Operation ${index + 1} ${error}` : null;
+    })
+    .filter(Boolean);
+  if (errors.length > 0) throw new Error(errors.join('\n'));
+  return operations;
+};
+
+// Summary shown after applying, one line per failed operation; every operation either applied or failed
+export const formatPatchResult = (result: PatchResult): string => [
+  `Applied ${result.applied} of ${result.applied + result.failures.length} edits`,
+  ...result.failures.map(failure => `✗ Operation ${failure.index + 1} (${failure.op} ${failure.id}): ${failure.error}`)
+].join('\n');
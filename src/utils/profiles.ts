@@ -0,0 +1,32 @@
+// Helpers for the built-in and user-saved extraction profiles. Profiles are stored in
+// figma.clientStorage, so anything read back is validated before it is used.
+
+import { EXTRACT_PROFILES, PROPERTY_GROUPS } from '../constants';
+import type { ExtractProfile, PropertyGroup } from '../types/extraction';
+
+// Keep known groups only, in the order they are listed in the UI
+export const normalizeGroups = (groups: unknown): PropertyGroup[] => (
+  Array.isArray(groups)
+    ? PROPERTY_GROUPS.map(group => group.id).filter(id => groups.includes(id))
+    : []
+);
+
+export const normalizeCustomProfiles = (profiles: unknown): ExtractProfile[] => (
+  Array.isArray(profiles)
+    ? profiles
+      .filter(profile => typeof profile?.id === 'string' && typeof profile?.name === 'string')
+      .map(profile => ({ id: profile.id, name: profile.name, groups: normalizeGroups(profile.groups), custom: true }))
+    : []
+);
+
+export const getProfiles = (customProfiles: ExtractProfile[]) => [...EXTRACT_PROFILES, ...customProfiles];
+
+// The profile that collects exactly these groups, if any
+export const matchProfile = (profiles: ExtractProfile[], groups: PropertyGroup[]) => (
+  profiles.find(profile => (
+    profile.groups.length === groups.length && profile.groups.every(group => groups.includes(group))
+  ))
+);
+
+// Custom profile ids are derived from their names so saving under an existing name replaces it
+export const toProfileId = (name: string) => `custom:${name.trim().toLowerCase()}`;
@@ -0,0 +1,73 @@
+// Prompt templates that wrap the copied output. Placeholders such as {{data}} are replaced
+// when copying; templates are stored in clientStorage and shared as JSON files.
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+export type PromptValues = {
+  data: string;
+  selectionName: string;
+  format: string;
+  tokenCount: string;
+};
+
+export const PROMPT_PLACEHOLDERS: { key: keyof PromptValues; description: string }[] = [
+  { key: 'data', description: 'the exported output' },
+  { key: 'selectionName', description: 'names of the selected layers' },
+  { key: 'format', description: 'the output format' },
+  { key: 'tokenCount', description: 'token count of the output' }
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'react-component',
+    name: 'React component',
+    body: 'Implement the "{{selectionName}}" component in React with TypeScript. Use our design tokens wherever the design references a variable or style, and keep the layer structure as the component structure.\n\nDesign ({{format}}):\n{{data}}'
+  },
+  {
+    id: 'review-design',
+    name: 'Review design',
+    body: 'Review the "{{selectionName}}" design below for inconsistent spacing, colors and type that don\'t come from tokens, and accessibility problems. List each issue with the layer it affects.\n\n{{data}}'
+  }
+];
+
+// Unknown placeholders are left as written, so a typo stays visible in the copied prompt
+export const renderPrompt = (template: PromptTemplate, values: PromptValues): string =>
+  template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => (
+    key in values ? values[key as keyof PromptValues] : match
+  ));
+
+export const createPromptTemplateId = () => `prompt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const normalizePromptTemplates = (templates: unknown): PromptTemplate[] => (
+  Array.isArray(templates)
+    ? templates
+      .filter(template => typeof template?.name === 'string' && typeof template?.body === 'string')
+      .map(template => ({
+        id: typeof template.id === 'string' ? template.id : createPromptTemplateId(),
+        name: template.name,
+        body: template.body
+      }))
+    : []
+);
+
+// Shared files hold a version so the format can change later
+export const serializePromptTemplates = (templates: PromptTemplate[]): string =>
+  JSON.stringify({ version: 1, templates }, null, 2);
+
+// Accepts a shared file or a bare list of templates; throws when neither is found
+export const parsePromptTemplates = (text: string): PromptTemplate[] => {
+  const parsed = JSON.parse(text);
+  const templates = normalizePromptTemplates(Array.isArray(parsed) ? parsed : parsed?.templates);
+  if (templates.length === 0) throw new Error('No prompt templates found in file');
+  return templates;
+};
+
+// Imported templates replace those with the same id and are added otherwise
+export const mergePromptTemplates = (current: PromptTemplate[], imported: PromptTemplate[]): PromptTemplate[] => [
+  ...current.filter(template => !imported.some(item => item.id === template.id)),
+  ...imported
+];
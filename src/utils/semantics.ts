@@ -0,0 +1,203 @@
+// Annotates extracted data with a guessed semantic role per node and an accessibility
+// report per root: text contrast against the nearest solid background, small touch
+// targets and small text. Checks that need properties the profile left out are skipped.
+
+import { MAX_ICON_SIZE } from '../constants';
+import { VECTOR_TYPES } from './codegen/elements';
+
+export type SemanticRole = 'button' | 'link' | 'input' | 'heading' | 'list' | 'listitem' | 'image' | 'icon';
+
+export type AccessibilityIssue =
+  | { path: string; check: 'contrast'; ratio: number; required: number; foreground: string; background: string }
+  | { path: string; check: 'touchTarget'; width: number; height: number; minimum: number }
+  | { path: string; check: 'textSize'; fontSize: number; minimum: number };
+
+// WCAG 2.5.5 target size and a common floor for body text
+const MIN_TOUCH_TARGET = 44;
+const MIN_TEXT_SIZE = 12;
+
+const INTERACTIVE_ROLES: SemanticRole[] = ['button', 'link', 'input'];
+
+// Name patterns, checked against the layer name and the component it comes from
+const ROLE_PATTERNS: [SemanticRole, RegExp][] = [
+  ['input', /\b(input|text ?field|text ?area|search ?(bar|field)|select|dropdown|checkbox|radio|switch|toggle)\b/],
+  ['button', /\b(button|btn|cta)\b/],
+  ['link', /\blink\b/],
+  ['icon', /\b(icon|ic)\b/],
+  ['image', /\b(image|img|photo|picture|avatar|thumbnail|illustration)\b/],
+  ['list', /\b(list|menu)\b/]
+];
+
+type Rgb = { r: number; g: number; b: number };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// "Button/Primary_Large" -> "button primary large", so separators count as word breaks
+const getNames = (node: any): string[] => [
+  node.name,
+  node.component?.componentSet?.name,
+  node.component?.name
+].filter((name): name is string => typeof name === 'string').map(name => name.toLowerCase().replace(/[_/]/g, ' '));
+
+// Repeats such as "Item 1", "Item 2" count as the same item
+const toItemKey = (node: any) => `${node.type}:${node.component?.componentSet?.name ?? node.component?.name ?? String(node.name).replace(/[\s_-]*\d+$/, '')}`;
+
+const isVisibleChild = (child: any) => child && child.type && child.visible !== false;
+
+// Auto layout with at least three children made from the same component or name
+const looksLikeList = (node: any): boolean => {
+  if (!node.layoutMode || node.layoutMode === 'NONE' || !Array.isArray(node.children)) return false;
+  const items = node.children.filter(isVisibleChild);
+  return items.length >= 3 && items.every((child: any) => toItemKey(child) === toItemKey(items[0]));
+};
+
+// A compact filled or outlined auto-layout frame labelled by a short text and maybe an icon
+const looksLikeButton = (node: any): boolean => {
+  if (!node.layoutMode || node.layoutMode === 'NONE' || !Array.isArray(node.children)) return false;
+  if (typeof node.height === 'number' && node.height > 64) return false;
+  const hasSurface = node.fills?.length > 0 || node.strokes?.length > 0;
+  const texts = node.children.filter((child: any) => child.type === 'TEXT');
+  const others = node.children.filter((child: any) => child.type !== 'TEXT');
+  return hasSurface &&
+    texts.length === 1 &&
+    String(texts[0].characters ?? '').trim().split(/\s+/).length <= 4 &&
+    others.every((child: any) => VECTOR_TYPES.includes(child.type) || child.type === 'INSTANCE');
+};
+
+// Levels follow the names h1-h6, then the text size; titles too small for a level get h3
+const getHeadingLevel = (node: any): number | null => {
+  const names = getNames(node);
+  const level = names.map(name => /\bh([1-6])\b/.exec(name)).find(Boolean);
+  if (level) return Number(level[1]);
+  if (node.fontSize >= 32) return 1;
+  if (node.fontSize >= 24) return 2;
+  if (node.fontSize >= 20) return 3;
+  return names.some(name => /\b(heading|title)\b/.test(name)) ? 3 : null;
+};
+
+const hasImageFill = (node: any) => Array.isArray(node.fills) && node.fills.some((paint: any) => paint.type === 'IMAGE');
+
+const guessRole = (node: any, parentRole: SemanticRole | null): { role: SemanticRole; level?: number } | null => {
+  if (parentRole === 'list' && node.type !== 'TEXT') return { role: 'listitem' };
+
+  if (node.type === 'TEXT') {
+    if (getNames(node).some(name => /\blink\b/.test(name))) return { role: 'link' };
+    const level = getHeadingLevel(node);
+    return level ? { role: 'heading', level } : null;
+  }
+
+  const names = getNames(node);
+  for (const [role, pattern] of ROLE_PATTERNS) {
+    if (names.some(name => pattern.test(name))) return { role };
+  }
+
+  if (looksLikeButton(node)) return { role: 'button' };
+  if (looksLikeList(node)) return { role: 'list' };
+  if (hasImageFill(node)) return { role: 'image' };
+  if (VECTOR_TYPES.includes(node.type) || typeof node.svg === 'string') {
+    const small = typeof node.width === 'number' && node.width <= MAX_ICON_SIZE && node.height <= MAX_ICON_SIZE;
+    return { role: small ? 'icon' : 'image' };
+  }
+  return null;
+};
+
+const WHITE: Rgb = { r: 1, g: 1, b: 1 };
+
+// Color of the topmost fill with its effective opacity; null when that fill isn't a resolved solid
+const getSolidFill = (fills: any): (Rgb & { alpha: number }) | null => {
+  const paint = Array.isArray(fills) ? fills[fills.length - 1] : null;
+  if (!paint || paint.type !== 'SOLID' || !paint.color) return null;
+  const { r, g, b, a = 1 } = paint.color;
+  return { r, g, b, alpha: a * (paint.opacity ?? 1) };
+};
+
+const blend = (top: Rgb & { alpha: number }, bottom: Rgb): Rgb => ({
+  r: top.r * top.alpha + bottom.r * (1 - top.alpha),
+  g: top.g * top.alpha + bottom.g * (1 - top.alpha),
+  b: top.b * top.alpha + bottom.b * (1 - top.alpha)
+});
+
+const toHex = ({ r, g, b }: Rgb) => `#${[r, g, b].map(value => Math.round(value * 255).toString(16).padStart(2, '0')).join('')}`;
+
+// WCAG 2.x relative luminance and contrast ratio
+const luminance = ({ r, g, b }: Rgb) => {
+  const channel = (value: number) => (value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4);
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+const contrastRatio = (a: Rgb, b: Rgb) => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Large text (24px, or 18.66px bold) only needs 3:1
+const isLargeText = (run: any) => run.fontSize >= 24 || (run.fontSize >= 18.66 && run.fontWeight >= 700);
+
+const checkText = (node: any, path: string, background: Rgb | null, issues: AccessibilityIssue[]) => {
+  // Mixed text is checked per styled segment
+  const runs = Array.isArray(node.segments) ? node.segments : [node];
+  for (const run of runs) {
+    const fontSize = run.fontSize ?? node.fontSize;
+    if (typeof fontSize === 'number' && fontSize < MIN_TEXT_SIZE) {
+      issues.push({ path, check: 'textSize', fontSize, minimum: MIN_TEXT_SIZE });
+    }
+
+    const fill = getSolidFill(run.fills ?? node.fills);
+    if (!fill || !background || typeof fontSize !== 'number') continue;
+    const foreground = blend(fill, background);
+    const ratio = contrastRatio(foreground, background);
+    const required = isLargeText({ fontSize, fontWeight: run.fontWeight ?? node.fontWeight }) ? 3 : 4.5;
+    if (ratio < required) {
+      issues.push({ path, check: 'contrast', ratio: round(ratio), required, foreground: toHex(foreground), background: toHex(background) });
+    }
+  }
+};
+
+const annotateNode = (
+  node: any,
+  path: string,
+  parentRole: SemanticRole | null,
+  background: Rgb | null,
+  issues: AccessibilityIssue[]
+): any => {
+  if (!node || !node.type) return node;
+
+  const annotated: any = { ...node };
+  const guess = guessRole(node, parentRole);
+  if (guess) {
+    annotated.role = guess.role;
+    if (guess.level) annotated.headingLevel = guess.level;
+  }
+
+  if (guess && INTERACTIVE_ROLES.includes(guess.role) && typeof node.width === 'number' && node.visible !== false) {
+    if (node.width < MIN_TOUCH_TARGET || node.height < MIN_TOUCH_TARGET) {
+      issues.push({ path, check: 'touchTarget', width: round(node.width), height: round(node.height), minimum: MIN_TOUCH_TARGET });
+    }
+  }
+
+  if (node.type === 'TEXT') {
+    if (node.visible !== false) checkText(node, path, background, issues);
+    return annotated;
+  }
+
+  // Children are drawn over this node's fill, blended over what lies behind it;
+  // image and gradient fills leave the background unknown
+  let childBackground = background;
+  if (Array.isArray(node.fills) && node.fills.length > 0) {
+    const fill = getSolidFill(node.fills);
+    childBackground = fill ? blend(fill, background ?? WHITE) : null;
+  }
+  if (Array.isArray(node.children)) {
+    annotated.children = node.children.map((child: any) => (
+      annotateNode(child, `${path} / ${child?.name}`, guess?.role ?? null, childBackground, issues)
+    ));
+  }
+  return annotated;
+};
+
+// Annotate one extracted root; the report lists issues by layer path from the root
+export const annotateAccessibility = (root: any): any => {
+  const issues: AccessibilityIssue[] = [];
+  const annotated = annotateNode(root, root?.name, null, null, issues);
+  return { ...annotated, accessibility: issues };
+};
@@ -0,0 +1,56 @@
+// Table of contents that leads page and document exports: pages, then their frames with
+// ids and sizes, written in the style of each output format ahead of the frame data.
+
+import type { PageContents } from '../../types/extraction';
+import type { SerializeOptions, Serializer } from './index';
+
+const formatSize = (frame: PageContents['frames'][number]) => `${frame.width}x${frame.height}`;
+
+const writeOutlineContents = (contents: PageContents[]): string[] => [
+  '<Contents>',
+  ...contents.flatMap(page => [
+    `  <Page id=${JSON.stringify(page.id)} name=${JSON.stringify(page.name)}>`,
+    ...page.frames.map(frame => (
+      `    <Frame id=${JSON.stringify(frame.id)} name=${JSON.stringify(frame.name)} type=${JSON.stringify(frame.type)} size="${formatSize(frame)}" />`
+    )),
+    '  </Page>'
+  ]),
+  '</Contents>'
+];
+
+const writeMarkdownContents = (contents: PageContents[]): string[] => [
+  '## Contents',
+  ...contents.flatMap(page => [
+    `- **${page.name}** \`${page.id}\``,
+    ...page.frames.map(frame => `  - ${frame.name} \`${frame.id}\` ${frame.type.toLowerCase()} ${formatSize(frame)}`)
+  ]),
+  '',
+  '## Frames'
+];
+
+// Plain-text contents for formats without a structure of their own, such as generated code
+const writeTextContents = (contents: PageContents[]): string[] => contents.flatMap(page => [
+  `${page.name} (${page.id})`,
+  ...page.frames.map(frame => `  ${frame.name} (${frame.id}) ${formatSize(frame)}`)
+]);
+
+export const serializeWithContents = (
+  serializer: Serializer,
+  contents: PageContents[],
+  data: unknown,
+  options: SerializeOptions
+): string => {
+  switch (serializer.id) {
+    case 'minified':
+    case 'pretty':
+    case 'yaml':
+      // Structured formats nest both in one document so the output still parses
+      return serializer.serialize({ contents, frames: data }, options);
+    case 'outline':
+      return [...writeOutlineContents(contents), serializer.serialize(data, options)].join('\n');
+    case 'markdown':
+      return [...writeMarkdownContents(contents), serializer.serialize(data, options)].join('\n');
+    default:
+      return ['<!--', ...writeTextContents(contents), '-->', serializer.serialize(data, options)].join('\n');
+  }
+};
@@ -0,0 +1,155 @@
+// Shared helpers that condense an extracted node into a short list of attributes,
+// used by the outline and Markdown serializers.
+
+export type NodeAttribute = [string, string | number | boolean];
+
+// Multi-selections arrive as arrays, single selections as one node
+export const toNodeList = (data: any): any[] => (Array.isArray(data) ? data : [data]);
+
+// FRAME -> Frame, BOOLEAN_OPERATION -> BooleanOperation
+export const toTagName = (type: string): string =>
+  type.toLowerCase().replace(/(^|_)([a-z])/g, (_, __, letter: string) => letter.toUpperCase());
+
+// Text shown as a node's content: layer text, or the text of a sticky or shape in FigJam
+export const getTextContent = (node: any): string | undefined => {
+  const text = node.type === 'TEXT' ? node.characters : node.text;
+  return typeof text === 'string' ? text : undefined;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Describe a list of paints by the most useful reference available for the first one
+const describePaints = (paints: any, style?: string): string | undefined => {
+  if (style) return style;
+  if (paints === 'MIXED') return 'mixed';
+  if (!Array.isArray(paints) || paints.length === 0) return undefined;
+
+  const [paint] = paints;
+  let description: string;
+  if (paint.variable) {
+    description = paint.variable.variable;
+  } else if (paint.type === 'SOLID') {
+    description = paint.color.hex;
+  } else if (paint.type === 'GRADIENT_LINEAR' && paint.angle !== undefined) {
+    description = `linear-gradient(${paint.angle}deg)`;
+  } else {
+    description = paint.type.toLowerCase();
+  }
+  if (paint.opacity !== undefined && paint.opacity < 1) description += ` ${Math.round(paint.opacity * 100)}%`;
+  return paints.length > 1 ? `${description} +${paints.length - 1}` : description;
+};
+
+const describePadding = (node: any): string | number | undefined => {
+  const { paddingTop: top, paddingRight: right, paddingBottom: bottom, paddingLeft: left } = node;
+  if (top === undefined) return undefined;
+  if (top === right && top === bottom && top === left) return top === 0 ? undefined : top;
+  return `${top} ${right} ${bottom} ${left}`;
+};
+
+const describeFont = (node: any): string | undefined => {
+  if (!node.fontFamily) return undefined;
+  const size = node.fontSize !== undefined ? ` ${node.fontSize}` : '';
+  const weight = node.fontWeight !== undefined ? `/${node.fontWeight}` : '';
+  return `${node.fontFamily}${size}${weight}`;
+};
+
+// click -> navigate Home, hover -> change to Button/Hover
+const describeReaction = (reaction: any): string => {
+  const trigger = String(reaction.trigger.type).replace(/^ON_/, '').toLowerCase().replace(/_/g, ' ');
+  const actions = reaction.actions.map((action: any) => {
+    const type = String(action.type).toLowerCase().replace(/_/g, ' ');
+    if (action.destination) return `${type} ${action.destination.name}`;
+    if (action.url) return `open ${action.url}`;
+    return type;
+  });
+  return `${trigger} -> ${actions.join(', ')}`;
+};
+
+// One line per issue of an accessibility report
+export const describeIssue = (issue: any): string => {
+  if (issue.check === 'contrast') {
+    return `contrast ${issue.ratio}:1, needs ${issue.required}:1 (${issue.foreground} on ${issue.background})`;
+  }
+  if (issue.check === 'touchTarget') {
+    return `touch target ${issue.width}x${issue.height}, needs ${issue.minimum}x${issue.minimum}`;
+  }
+  if (issue.check === 'textSize') return `text ${issue.fontSize}px, needs ${issue.minimum}px`;
+  return JSON.stringify(issue);
+};
+
+// Collect the attributes worth showing for a node, in display order
+export const describeNode = (node: any): NodeAttribute[] => {
+  const attributes: NodeAttribute[] = [];
+  const add = (key: string, value: string | number | boolean | undefined) => {
+    if (value !== undefined && value !== '') attributes.push([key, value]);
+  };
+
+  add('name', node.name);
+  add('id', node.id);
+  add('role', node.headingLevel ? `h${node.headingLevel}` : node.role);
+  add('template', node.template);
+  add('component', node.component?.name);
+  if (node.variantProperties) {
+    add('variant', Object.entries(node.variantProperties).map(([key, value]) => `${key}=${value}`).join(', '));
+  }
+  if (typeof node.width === 'number') add('w', round(node.width));
+  if (typeof node.height === 'number') add('h', round(node.height));
+  if (node.visible === false) add('hidden', true);
+
+  if (node.layoutMode && node.layoutMode !== 'NONE') {
+    add('layout', node.layoutMode);
+    if (node.primaryAxisAlignItems !== 'SPACE_BETWEEN') add('gap', node.itemSpacing);
+    add('padding', describePadding(node));
+    add('justify', node.primaryAxisAlignItems !== 'MIN' ? node.primaryAxisAlignItems : undefined);
+    add('align', node.counterAxisAlignItems !== 'MIN' ? node.counterAxisAlignItems : undefined);
+    if (node.layoutWrap === 'WRAP') add('wrap', true);
+  }
+  if (node.layoutSizingHorizontal && node.layoutSizingHorizontal !== 'FIXED') {
+    add('sizeX', node.layoutSizingHorizontal.toLowerCase());
+  }
+  if (node.layoutSizingVertical && node.layoutSizingVertical !== 'FIXED') {
+    add('sizeY', node.layoutSizingVertical.toLowerCase());
+  }
+  if (node.layoutPositioning === 'ABSOLUTE') add('absolute', true);
+
+  if (node.type !== 'TEXT') add('fill', describePaints(node.fills, node.fillStyle));
+  add('stroke', describePaints(node.strokes, node.strokeStyle));
+  if (node.strokes?.length > 0) add('strokeWeight', node.strokeWeight);
+  if (node.cornerRadius) add('radius', node.cornerRadius);
+  if (node.cornerRadii) {
+    const { topLeft, topRight, bottomRight, bottomLeft } = node.cornerRadii;
+    add('radius', `${topLeft} ${topRight} ${bottomRight} ${bottomLeft}`);
+  }
+  if (node.opacity !== undefined && node.opacity < 1) add('opacity', round(node.opacity));
+  if (node.effectStyle) {
+    add('effects', node.effectStyle);
+  } else if (node.effects?.length > 0) {
+    add('effects', node.effects.map((effect: any) => effect.type.toLowerCase()).join(', '));
+  }
+
+  if (node.type === 'TEXT') {
+    add('textStyle', node.textStyle);
+    add('font', describeFont(node));
+    add('color', describePaints(node.fills, node.fillStyle));
+  }
+
+  // FigJam and Slides content
+  add('section', node.section);
+  add('shape', node.shapeType);
+  if (node.authorVisible) add('author', node.author);
+  if (node.type === 'CONNECTOR') {
+    add('from', node.start?.node ?? undefined);
+    add('to', node.end?.node ?? undefined);
+    add('label', node.label);
+  }
+  add('language', node.codeLanguage);
+  if (node.numRows !== undefined) add('table', `${node.numRows}x${node.numColumns}`);
+  add('slide', node.slideNumber);
+  if (node.skipped) add('skipped', true);
+
+  if (Array.isArray(node.reactions)) add('interactions', node.reactions.map(describeReaction).join('; '));
+
+  if (node.childrenCount !== undefined) add('children', node.childrenCount);
+
+  return attributes;
+};
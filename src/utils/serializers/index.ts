@@ -0,0 +1,63 @@
+// Output formats offered as tabs in the UI. Each serializer turns the extracted
+// selection data into the text that is shown, counted and copied.
+
+import { CodeFlavor, generateCode } from '../codegen';
+import { serializeMarkdown } from './markdown';
+import { serializeOutline } from './outline';
+import { serializeYaml } from './yaml';
+
+export type OutputFormat = 'minified' | 'pretty' | 'yaml' | 'outline' | 'markdown' | 'code';
+
+export type SerializeOptions = {
+  codeFlavor: CodeFlavor;
+};
+
+export type Serializer = {
+  id: OutputFormat;
+  label: string;
+  // Prism language used to highlight the output
+  language: string;
+  serialize: (data: unknown, options: SerializeOptions) => string;
+};
+
+export const SERIALIZERS: Serializer[] = [
+  {
+    id: 'minified',
+    label: 'Mini JSON',
+    language: 'json',
+    serialize: data => JSON.stringify(data)
+  },
+  {
+    id: 'pretty',
+    label: 'Pretty JSON',
+    language: 'json',
+    serialize: data => JSON.stringify(data, null, 2)
+  },
+  {
+    id: 'yaml',
+    label: 'YAML',
+    language: 'yaml',
+    serialize: serializeYaml
+  },
+  {
+    id: 'outline',
+    label: 'Outline',
+    language: 'markup',
+    serialize: serializeOutline
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    language: 'markdown',
+    serialize: serializeMarkdown
+  },
+  {
+    id: 'code',
+    label: 'Code',
+    language: 'markup',
+    serialize: (data, options) => generateCode(data, options.codeFlavor)
+  }
+];
+
+export const getSerializer = (id: string): Serializer =>
+  SERIALIZERS.find(serializer => serializer.id === id) ?? SERIALIZERS[0];
@@ -0,0 +1,57 @@
+// Markdown hierarchy: one nested bullet per node, with its key attributes and text content
+
+import { describeIssue, describeNode, getTextContent, toNodeList, toTagName } from './describe';
+
+const formatAttributes = (node: any): string => describeNode(node)
+  .filter(([key]) => key !== 'name')
+  .map(([key, value]) => (value === true ? key : `${key}: ${value}`))
+  .join(', ');
+
+const writeNode = (node: any, indent: string): string[] => {
+  if (!node || !node.type) return [`${indent}- ${JSON.stringify(node)}`];
+
+  const attributes = formatAttributes(node);
+  let line = `${indent}- **${node.name}** \`${toTagName(node.type)}\``;
+  if (attributes) line += ` — ${attributes}`;
+  // Text content is quoted on one line so line breaks don't break the list
+  const text = getTextContent(node);
+  if (text !== undefined) line += ` — ${JSON.stringify(text)}`;
+
+  const lines = [line];
+  if (Array.isArray(node.overrides)) {
+    for (const override of node.overrides) {
+      const values = Object.entries(override)
+        .filter(([key, value]) => key !== 'layer' && key !== 'type' && (typeof value !== 'object' || value === null))
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+      lines.push(`${indent}  - override **${override.layer}**${values.length > 0 ? ` — ${values.join(', ')}` : ''}`);
+    }
+  }
+  if (typeof node.svg === 'string') {
+    lines.push(`${indent}  \`\`\`svg`, ...node.svg.trim().split('\n').map((line: string) => `${indent}  ${line}`), `${indent}  \`\`\``);
+  }
+  if (node.values) {
+    for (const [path, value] of Object.entries(node.values)) {
+      if (typeof value !== 'object' || value === null) lines.push(`${indent}  - set \`${path}\`: ${JSON.stringify(value)}`);
+    }
+  }
+  if (Array.isArray(node.children)) {
+    lines.push(...node.children.flatMap((child: any) => writeNode(child, `${indent}  `)));
+  }
+  return lines;
+};
+
+// Shared templates are listed ahead of the tree that refers to them
+const writeRoot = (node: any): string[] => [
+  ...Object.entries(node?.templates ?? {}).flatMap(([name, template]) => [
+    `- template **${name}**`,
+    ...writeNode(template, '  ')
+  ]),
+  ...writeNode(node, ''),
+  // Accessibility issues follow the tree they were found in
+  ...(node?.accessibility?.length > 0
+    ? ['- accessibility', ...node.accessibility.map((issue: any) => `  - **${issue.path}** — ${describeIssue(issue)}`)]
+    : [])
+];
+
+export const serializeMarkdown = (data: unknown): string =>
+  toNodeList(data).flatMap(writeRoot).join('\n');
@@ -0,0 +1,65 @@
+// Indented XML/JSX-like tag outline: <Frame name="Card" layout="VERTICAL" gap=8>
+
+import { describeIssue, describeNode, getTextContent, toNodeList, toTagName } from './describe';
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Strings are quoted, numbers and booleans are written bare like JSX expressions
+const formatAttributes = (node: any): string => describeNode(node)
+  .map(([key, value]) => (typeof value === 'string' ? `${key}=${JSON.stringify(value)}` : `${key}=${value}`))
+  .join(' ');
+
+const writeOverrides = (overrides: any[], indent: string): string[] => overrides.map(override => {
+  const values = Object.entries(override)
+    .filter(([key, value]) => key !== 'layer' && key !== 'type' && (typeof value !== 'object' || value === null))
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+  return `${indent}<Override ${[`layer=${JSON.stringify(override.layer)}`, ...values].join(' ')} />`;
+});
+
+// Values in which a repeat differs from its template; nested objects are left to the JSON views
+const writeTemplateValues = (values: Record<string, any>, indent: string): string[] => Object.entries(values)
+  .filter(([, value]) => typeof value !== 'object' || value === null)
+  .map(([path, value]) => `${indent}<Set path=${JSON.stringify(path)} value=${JSON.stringify(value)} />`);
+
+const writeNode = (node: any, indent: string): string[] => {
+  if (!node || !node.type) return [`${indent}${escapeText(JSON.stringify(node))}`];
+
+  const tag = toTagName(node.type);
+  const open = `${indent}<${tag} ${formatAttributes(node)}`;
+
+  const text = getTextContent(node);
+  if (text !== undefined && !Array.isArray(node.children)) {
+    return [`${open}>${escapeText(text)}</${tag}>`];
+  }
+
+  const children = [
+    ...(Array.isArray(node.overrides) ? writeOverrides(node.overrides, `${indent}  `) : []),
+    ...(node.values ? writeTemplateValues(node.values, `${indent}  `) : []),
+    ...(typeof node.svg === 'string' ? node.svg.trim().split('\n').map((line: string) => `${indent}  ${line}`) : []),
+    ...(Array.isArray(node.children) ? node.children.flatMap((child: any) => writeNode(child, `${indent}  `)) : [])
+  ];
+  if (children.length === 0) return [`${open} />`];
+
+  return [`${open}>`, ...children, `${indent}</${tag}>`];
+};
+
+// Accessibility issues follow the tree they were found in
+const writeAccessibility = (issues: any[]): string[] => [
+  '<Accessibility>',
+  ...issues.map(issue => `  <Issue path=${JSON.stringify(issue.path)}>${escapeText(describeIssue(issue))}</Issue>`),
+  '</Accessibility>'
+];
+
+// Shared templates are written ahead of the tree that refers to them
+const writeRoot = (node: any): string[] => [
+  ...Object.entries(node?.templates ?? {}).flatMap(([name, template]) => [
+    `<Template name=${JSON.stringify(name)}>`,
+    ...writeNode(template, '  '),
+    '</Template>'
+  ]),
+  ...writeNode(node, ''),
+  ...(node?.accessibility?.length > 0 ? writeAccessibility(node.accessibility) : [])
+];
+
+export const serializeOutline = (data: unknown): string =>
+  toNodeList(data).flatMap(writeRoot).join('\n');
@@ -0,0 +1,68 @@
+// Minimal YAML writer for extracted node data.
+// Only the subset of YAML needed for plain JSON values is produced: block mappings and
+// sequences, flow sequences for scalar lists, and double-quoted strings where plain ones would be ambiguous.
+
+const RESERVED_WORDS = /^(true|false|null|yes|no|on|off|~)$/i;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isScalar = (value: unknown) => value === null || typeof value !== 'object';
+
+const formatString = (value: string): string => {
+  const isPlain = /^[A-Za-z_/][\w ./#()-]*$/.test(value) &&
+    !RESERVED_WORDS.test(value) &&
+    !value.endsWith(' ') &&
+    !value.includes(' #');
+  // JSON string literals are valid double-quoted YAML scalars
+  return isPlain ? value : JSON.stringify(value);
+};
+
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return formatString(value);
+  return String(value);
+};
+
+const formatKey = (key: string): string => (/^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key));
+
+const writeValue = (value: unknown, indent: string): string[] => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ['[]'];
+    if (value.every(isScalar)) return [`[${value.map(formatScalar).join(', ')}]`];
+    return value.flatMap(item => writeSequenceItem(item, indent));
+  }
+  if (isPlainObject(value)) {
+    if (Object.keys(value).length === 0) return ['{}'];
+    return writeMapping(value, indent);
+  }
+  return [formatScalar(value)];
+};
+
+const writeMapping = (value: Record<string, unknown>, indent: string): string[] => {
+  const lines: string[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) continue;
+    const childLines = writeValue(child, `${indent}  `);
+    const isBlock = (Array.isArray(child) && child.length > 0 && !child.every(isScalar)) ||
+      (isPlainObject(child) && Object.keys(child).length > 0);
+    // Block values come back already indented one level below the key
+    if (isBlock) {
+      lines.push(`${indent}${formatKey(key)}:`, ...childLines);
+    } else {
+      lines.push(`${indent}${formatKey(key)}: ${childLines[0]}`);
+    }
+  }
+  return lines;
+};
+
+const writeSequenceItem = (item: unknown, indent: string): string[] => {
+  const itemLines = isPlainObject(item) && Object.keys(item).length > 0
+    ? writeMapping(item, `${indent}  `)
+    : writeValue(item, `${indent}  `);
+  // The first line of each item carries the "- " marker in place of its indentation
+  const [first, ...rest] = itemLines;
+  return [`${indent}- ${first.trimStart()}`, ...rest];
+};
+
+export const serializeYaml = (data: unknown): string => writeValue(data, '').join('\n');
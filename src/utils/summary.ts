@@ -0,0 +1,45 @@
+// Condenses a subtree into type counts and text snippets. Works on both Figma scene
+// nodes and extracted node data, since both expose type, children and characters. Extracted
+// nodes that were already collapsed bring their own summary, which is folded in.
+
+export type SubtreeSummary = {
+  descendants: number;
+  types: Record<string, number>;
+  text?: string[];
+};
+
+const MAX_SNIPPETS = 5;
+const MAX_SNIPPET_LENGTH = 40;
+// Stop walking huge subtrees; the counts are then lower bounds
+const MAX_WALKED_NODES = 500;
+
+export const summarizeSubtree = (children: readonly any[]): SubtreeSummary => {
+  const summary: SubtreeSummary = { descendants: 0, types: {} };
+  const snippets: string[] = [];
+  const queue = [...children];
+
+  while (queue.length > 0 && summary.descendants < MAX_WALKED_NODES) {
+    const node = queue.shift();
+    summary.descendants++;
+    summary.types[node.type] = (summary.types[node.type] ?? 0) + 1;
+
+    if (node.type === 'TEXT' && typeof node.characters === 'string' && snippets.length < MAX_SNIPPETS) {
+      const text = node.characters.replace(/\s+/g, ' ').trim();
+      if (text) snippets.push(text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : text);
+    }
+    if (Array.isArray(node.children)) {
+      queue.push(...node.children);
+    } else if (node.summary && typeof node.summary.descendants === 'number') {
+      summary.descendants += node.summary.descendants;
+      for (const [type, count] of Object.entries<number>(node.summary.types ?? {})) {
+        summary.types[type] = (summary.types[type] ?? 0) + count;
+      }
+      for (const text of node.summary.text ?? []) {
+        if (snippets.length < MAX_SNIPPETS) snippets.push(text);
+      }
+    }
+  }
+
+  if (snippets.length > 0) summary.text = snippets;
+  return summary;
+};
@@ -0,0 +1,195 @@
+// Folds structurally identical subtrees (list rows, table cells, cards) into named templates.
+// Each repeat then points at its template, says how far it sits from it, and lists only the
+// values that differ from it.
+
+// Subtrees smaller than this many nodes aren't worth a template
+const MIN_TEMPLATE_NODES = 3;
+
+type NodeInfo = {
+  shape: number;
+  size: number;
+};
+
+// Nodes share a shape when they have the same type, the same keys and children of the same shapes
+const createShapeIndex = () => {
+  const shapeIds = new Map<string, number>();
+  const infos = new Map<any, NodeInfo>();
+
+  const visit = (node: any): NodeInfo => {
+    const children: any[] = Array.isArray(node.children) ? node.children : [];
+    const childInfos = children.map(visit);
+    const keys = Object.keys(node).filter(key => key !== 'children').sort();
+    const signature = `${node.type}|${keys.join(',')}|${childInfos.map(info => info.shape).join(',')}`;
+    if (!shapeIds.has(signature)) shapeIds.set(signature, shapeIds.size);
+    const info = {
+      shape: shapeIds.get(signature)!,
+      size: 1 + childInfos.reduce((sum, childInfo) => sum + childInfo.size, 0)
+    };
+    infos.set(node, info);
+    return info;
+  };
+
+  return { visit, infos };
+};
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const haveSameKeys = (a: any, b: any) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b);
+};
+
+type Offset = { x: number; y: number };
+
+// Positions closer than this are the same, so float error from moving them doesn't show up as a value
+const POSITION_TOLERANCE = 1e-6;
+
+const hasPosition = (node: any) => typeof node?.x === 'number' && typeof node?.y === 'number';
+
+// Collect the values of a repeat that differ from its template, keyed by their path. Node
+// positions, reached through children, are compared after moving the repeat onto the template
+const diffValues = (template: any, value: any, path: string, diff: Record<string, any>, offset: Offset | null = null) => {
+  if (!offset && JSON.stringify(template) === JSON.stringify(value)) return;
+  if (Array.isArray(template) && Array.isArray(value) && template.length === value.length) {
+    template.forEach((item, index) => diffValues(item, value[index], `${path}[${index}]`, diff, offset));
+  } else if (isPlainObject(template) && isPlainObject(value) && haveSameKeys(template, value)) {
+    for (const key of Object.keys(template)) {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (offset && (key === 'x' || key === 'y') && typeof template[key] === 'number' && typeof value[key] === 'number') {
+        const moved = value[key] - offset[key];
+        if (Math.abs(moved - template[key]) > POSITION_TOLERANCE) diff[keyPath] = moved;
+      } else {
+        diffValues(template[key], value[key], keyPath, diff, key === 'children' ? offset : null);
+      }
+    }
+  } else {
+    diff[path] = value;
+  }
+};
+
+// Move a node and its children by an offset, the inverse of comparing them against a template
+const moveNode = (node: any, offset: Offset) => {
+  if (!isPlainObject(node)) return;
+  if (hasPosition(node)) {
+    node.x += offset.x;
+    node.y += offset.y;
+  }
+  if (Array.isArray(node.children)) node.children.forEach((child: any) => moveNode(child, offset));
+};
+
+// Template names come from the layer name of their first occurrence without its
+// numbering (Row 1 -> Row), made unique
+const createTemplateName = (node: any, taken: Set<string>) => {
+  const layerName = typeof node.name === 'string' ? node.name.trim().replace(/[\s_-]*\d+$/, '') : '';
+  const base = layerName || node.type;
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) name = `${base} ${suffix}`;
+  taken.add(name);
+  return name;
+};
+
+const deduplicateRoot = (root: any): any => {
+  const { visit, infos } = createShapeIndex();
+  visit(root);
+
+  // How often each shape occurs below the root
+  const counts = new Map<number, number>();
+  infos.forEach((info, node) => {
+    if (node !== root) counts.set(info.shape, (counts.get(info.shape) ?? 0) + 1);
+  });
+  const isCandidate = (node: any, excluded: Set<number>) => {
+    const info = infos.get(node)!;
+    return info.size >= MIN_TEMPLATE_NODES && counts.get(info.shape)! > 1 && !excluded.has(info.shape);
+  };
+
+  // Take the outermost repeats first. A shape whose other occurrences all sit inside
+  // a larger repeat ends up used once, so it is excluded and the choice made again.
+  const excluded = new Set<number>();
+  let uses = new Map<number, any[]>();
+  for (;;) {
+    uses = new Map();
+    const collect = (node: any) => {
+      for (const child of node.children ?? []) {
+        if (isCandidate(child, excluded)) {
+          const shape = infos.get(child)!.shape;
+          uses.set(shape, [...(uses.get(shape) ?? []), child]);
+        } else {
+          collect(child);
+        }
+      }
+    };
+    collect(root);
+
+    const single = [...uses].filter(([, nodes]) => nodes.length < 2);
+    if (single.length === 0) break;
+    single.forEach(([shape]) => excluded.add(shape));
+  }
+  if (uses.size === 0) return root;
+
+  // The first occurrence serves as the template
+  const taken = new Set<string>();
+  const templates: Record<string, any> = {};
+  const templateNames = new Map<number, string>();
+  uses.forEach(([first], shape) => {
+    const name = createTemplateName(first, taken);
+    templates[name] = first;
+    templateNames.set(shape, name);
+  });
+
+  const replace = (node: any): any => {
+    const info = infos.get(node)!;
+    if (node !== root && templateNames.has(info.shape) && uses.get(info.shape)!.includes(node)) {
+      const name = templateNames.get(info.shape)!;
+      const template = templates[name];
+      // Positions are relative to the selection root, so repeats are compared from their own origin
+      const offset = hasPosition(node) && hasPosition(template)
+        ? { x: node.x - template.x, y: node.y - template.y }
+        : { x: 0, y: 0 };
+      const values: Record<string, any> = {};
+      diffValues(template, node, '', values, offset);
+      delete values.name;
+      const reference: any = { name: node.name, type: node.type, template: name };
+      if (offset.x !== 0 || offset.y !== 0) reference.offset = offset;
+      if (Object.keys(values).length > 0) reference.values = values;
+      return reference;
+    }
+    return Array.isArray(node.children) ? { ...node, children: node.children.map(replace) } : node;
+  };
+
+  return { ...replace(root), templates };
+};
+
+// Replace repeated subtrees of each extracted root with references to shared templates
+export const deduplicateSubtrees = (data: any): any => (
+  Array.isArray(data) ? data.map(deduplicateRoot) : deduplicateRoot(data)
+);
+
+// Set a value at a path written by diffValues, such as children[0].characters
+const setAtPath = (target: any, path: string, value: any) => {
+  const segments = path.match(/[^.[\]]+/g) ?? [];
+  let current = target;
+  segments.slice(0, -1).forEach(segment => {
+    current = current[segment];
+  });
+  current[segments[segments.length - 1]] = value;
+};
+
+// Undo deduplicateSubtrees, for consumers that need every node spelled out
+export const expandTemplates = (data: any): any => {
+  if (Array.isArray(data)) return data.map(expandTemplates);
+  if (!isPlainObject(data) || !data.templates) return data;
+
+  const { templates, ...root } = data;
+  const expand = (node: any): any => {
+    if (typeof node.template === 'string' && templates[node.template]) {
+      const expanded = JSON.parse(JSON.stringify(templates[node.template]));
+      expanded.name = node.name;
+      for (const [path, value] of Object.entries(node.values ?? {})) setAtPath(expanded, path, value);
+      if (node.offset) moveNode(expanded, node.offset);
+      return expanded;
+    }
+    return Array.isArray(node.children) ? { ...node, children: node.children.map(expand) } : node;
+  };
+
+  return expand(root);
+};
@@ -0,0 +1,39 @@
+// Exact, offline token counts using the BPE vocabularies bundled with gpt-tokenizer.
+
+import { countTokens as countCl100kTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+import { countTokens as countO200kTokens } from 'gpt-tokenizer/encoding/o200k_base';
+
+export type TokenizerModel = 'o200k' | 'cl100k';
+
+export const TOKENIZER_MODELS: { id: TokenizerModel; label: string; count: (text: string) => number }[] = [
+  {
+    id: 'o200k',
+    label: 'GPT-4o / o1 / GPT-4.1',
+    // Special-token markers inside design text are counted as plain text instead of throwing
+    count: text => countO200kTokens(text, { disallowedSpecial: new Set() })
+  },
+  {
+    id: 'cl100k',
+    label: 'GPT-4 / GPT-3.5',
+    count: text => countCl100kTokens(text, { disallowedSpecial: new Set() })
+  }
+];
+
+export const getTokenizerModel = (id: string) =>
+  TOKENIZER_MODELS.find(model => model.id === id) ?? TOKENIZER_MODELS[0];
+
+export const countTokens = (text: string, model: TokenizerModel): number =>
+  text ? getTokenizerModel(model).count(text) : 0;
+
+// Format token count to show shorter versions for large numbers (1k, 1.5k, etc.)
+export const formatTokenCount = (count: number): string => {
+  if (count < 1000) {
+    return count.toString();
+  } else if (count < 10000) {
+    // For 1000-9999, show as 1.5k format
+    return (Math.round(count / 100) / 10).toFixed(1) + 'k';
+  } else {
+    // For 10000+, show as 10k format without decimal
+    return Math.round(count / 1000) + 'k';
+  }
+};